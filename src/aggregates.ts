@@ -0,0 +1,206 @@
+import type { Accumulator } from './types'
+import { _compareValues } from './planner'
+
+/**
+ * A value computed over the rows of a query, see {@link Query.aggregate}.
+ * @typeParam R - The type of the result
+ */
+export abstract class Aggregate<R> {
+  /**
+   * @param field - The aggregated field, undefined for the whole rows
+   */
+  constructor(public field?: string) {}
+
+  /**
+   * Creates an accumulator, computing the result of a group of rows.
+   * @returns - A new accumulator
+   */
+  public abstract accumulator(): Accumulator<R>
+
+  /**
+   * Returns the value of the aggregated field, undefined if the row doesn't have one.
+   * @param row - The row
+   * @returns - The value of the field
+   */
+  protected value(row: Record<string, unknown>): unknown {
+    const value = this.field === undefined ? row : row[this.field]
+    return value === null ? undefined : value
+  }
+}
+
+export class CountAggregate extends Aggregate<number> {
+  /**
+   * An aggregate counting the rows, or those with a value for the field.
+   * @param field - The field, optional
+   */
+  constructor(field?: string) {
+    super(field)
+  }
+
+  public accumulator(): Accumulator<number> {
+    let count = 0
+    return {
+      add: (row) => {
+        if (this.value(row) !== undefined)
+          count += 1
+      },
+      result: () => count,
+    }
+  }
+}
+
+export class SumAggregate extends Aggregate<number> {
+  /**
+   * An aggregate adding up the values of a field, 0 without any value.
+   * @param field - The field
+   */
+  constructor(field: string) {
+    super(field)
+  }
+
+  public accumulator(): Accumulator<number> {
+    let sum = 0
+    return {
+      add: (row) => {
+        const value = this.value(row)
+        if (value !== undefined)
+          sum += value as number
+      },
+      result: () => sum,
+    }
+  }
+}
+
+export class AvgAggregate extends Aggregate<number | null> {
+  /**
+   * An aggregate averaging the values of a field, null without any value.
+   * @param field - The field
+   */
+  constructor(field: string) {
+    super(field)
+  }
+
+  public accumulator(): Accumulator<number | null> {
+    let sum = 0
+    let count = 0
+    return {
+      add: (row) => {
+        const value = this.value(row)
+        if (value === undefined)
+          return
+        sum += value as number
+        count += 1
+      },
+      result: () => (count ? sum / count : null),
+    }
+  }
+}
+
+export class MinAggregate<V> extends Aggregate<V | null> {
+  /** Whether the largest value is kept instead */
+  protected largest = false
+
+  /**
+   * An aggregate keeping the smallest value of a field, in the order of IDB's indexes, null without any value.
+   * If the query isn't filtered and the field is indexed, the index is used instead of reading the rows.
+   * @param field - The field
+   */
+  constructor(field: string) {
+    super(field)
+  }
+
+  public accumulator(): Accumulator<V | null> {
+    let result: unknown
+    return {
+      add: (row) => {
+        const value = this.value(row)
+        if (value === undefined)
+          return
+        const comparison = result === undefined ? 0 : _compareValues(value, result)
+        if (result === undefined || (this.largest ? comparison > 0 : comparison < 0))
+          result = value
+      },
+      result: () => (result === undefined ? null : result as V),
+    }
+  }
+}
+
+export class MaxAggregate<V> extends MinAggregate<V> {
+  protected largest = true
+
+  /**
+   * An aggregate keeping the largest value of a field, in the order of IDB's indexes, null without any value.
+   * If the query isn't filtered and the field is indexed, the index is used instead of reading the rows.
+   * @param field - The field
+   */
+  constructor(field: string) {
+    super(field)
+  }
+}
+
+/**
+ * An aggregate counting the rows.
+ * @param field - Only count the rows with a value for this field, optional
+ * @example
+ * ```ts
+ * // Get the amount of users, and of those with an email
+ * const { users, emails } = await User.aggregate({ users: count(), emails: count('email') })
+ * ```
+ */
+export function count(field?: string): CountAggregate {
+  return new CountAggregate(field)
+}
+
+/**
+ * An aggregate adding up the values of a field.
+ * @param field - The field
+ * @example
+ * ```ts
+ * // Get the total amount of the paid orders
+ * const { total } = await Order.filter({ paid: true }).aggregate({ total: sum('amount') })
+ * ```
+ */
+export function sum(field: string): SumAggregate {
+  return new SumAggregate(field)
+}
+
+/**
+ * An aggregate averaging the values of a field.
+ * @param field - The field
+ * @example
+ * ```ts
+ * // Get the average age of the users
+ * const { age } = await User.aggregate({ age: avg('age') })
+ * ```
+ */
+export function avg(field: string): AvgAggregate {
+  return new AvgAggregate(field)
+}
+
+/**
+ * An aggregate keeping the smallest value of a field.
+ * @param field - The field
+ * @typeParam V - The type of the field
+ * @example
+ * ```ts
+ * // Get the date of the first order, using its index
+ * const { first } = await Order.aggregate({ first: min<Date>('date') })
+ * ```
+ */
+export function min<V = unknown>(field: string): MinAggregate<V> {
+  return new MinAggregate(field)
+}
+
+/**
+ * An aggregate keeping the largest value of a field.
+ * @param field - The field
+ * @typeParam V - The type of the field
+ * @example
+ * ```ts
+ * // Get the date of the last order, using its index
+ * const { last } = await Order.aggregate({ last: max<Date>('date') })
+ * ```
+ */
+export function max<V = unknown>(field: string): MaxAggregate<V> {
+  return new MaxAggregate(field)
+}
@@ -0,0 +1,80 @@
+import type { BroadcastOptions, ChangeChannel, Database, TableChange } from './types'
+import { WormError } from './errors'
+import { _notifyChanges, _onChanges } from './observers'
+
+/** The channel of each broadcasting handle, and how to stop it */
+const broadcasts = new WeakMap<Database, () => void>()
+
+/**
+ * Resolves how to create the channels of the `broadcast` option.
+ * @param broadcast - The `broadcast` option of the connection
+ * @returns - Creates a channel, or null when not broadcasting
+ * @internal
+ */
+export function _channelFactory(
+  broadcast: boolean | BroadcastOptions | undefined,
+): ((name: string) => ChangeChannel) | null {
+  if (!broadcast)
+    return null
+  if (broadcast !== true && broadcast.channel)
+    return broadcast.channel
+  if (typeof BroadcastChannel === 'undefined')
+    throw new WormError('BroadcastChannel is not available, provide a channel')
+  return name => new BroadcastChannel(name)
+}
+
+/**
+ * Checks that a message received on a channel is a change.
+ * @param message - The message
+ * @returns - Whether it's a change
+ */
+function _isChange(message: unknown): message is TableChange {
+  const change = message as TableChange | null
+  return typeof change?.table === 'string'
+    && ['create', 'update', 'delete', 'clear'].includes(change.type)
+    && Array.isArray(change.keys)
+}
+
+/**
+ * Shares the changes committed through a connected handle on a channel named after its database,
+ * and notifies the changes received from the other tabs as remote ones.
+ * @param database - The connected handle
+ * @param createChannel - Creates the channel
+ * @internal
+ */
+export function _startBroadcast(
+  database: Database,
+  createChannel: (name: string) => ChangeChannel,
+): void {
+  if (!database.connected || broadcasts.has(database))
+    return
+
+  const channel = createChannel(database.name)
+  const stopListening = _onChanges((session, changes, remote) => {
+    if (remote || !database.connected || database.session !== session)
+      return
+    for (const { table, type, keys } of changes)
+      channel.postMessage({ table, type, keys })
+  })
+  channel.onmessage = (event) => {
+    const change: unknown = event.data
+    if (database.connected && _isChange(change))
+      _notifyChanges(database.session, [change], true)
+  }
+
+  broadcasts.set(database, () => {
+    stopListening()
+    channel.onmessage = null
+    channel.close()
+  })
+}
+
+/**
+ * Stops sharing the changes of a handle, if it was.
+ * @param database - The handle
+ * @internal
+ */
+export function _stopBroadcast(database: Database): void {
+  broadcasts.get(database)?.()
+  broadcasts.delete(database)
+}
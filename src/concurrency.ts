@@ -0,0 +1,47 @@
+import { _getVersionField } from './metadata'
+import { ConcurrencyError } from './errors'
+import { _fromDB } from './serialization'
+
+/**
+ * Checks that the stored row of a versioned model is still the one a write is based on.
+ * @param modelName - The class name of the model
+ * @param stored - The stored row, undefined if there's none
+ * @param expected - The version the write is based on, undefined for a new row
+ * @throws {ConcurrencyError} If the row was written or deleted since
+ * @internal
+ */
+export function _assertVersion(
+  modelName: string,
+  stored: Record<string, unknown> | undefined,
+  expected: unknown,
+): void {
+  const field = _getVersionField(modelName)
+  if (!field)
+    return
+
+  const unchanged = (expected === undefined || expected === null)
+    ? stored === undefined
+    : stored?.[field] === expected
+  if (!unchanged)
+    throw new ConcurrencyError(modelName, stored ? _fromDB(modelName, stored) : null)
+}
+
+/**
+ * Increments the version of a row to write, from the stored one.
+ * @param modelName - The class name of the model
+ * @param record - The row to write
+ * @param stored - The stored row, undefined if there's none
+ * @internal
+ */
+export function _bumpVersion(
+  modelName: string,
+  record: Record<string, unknown>,
+  stored: Record<string, unknown> | undefined,
+): void {
+  const field = _getVersionField(modelName)
+  if (!field)
+    return
+
+  const current = stored?.[field]
+  record[field] = (typeof current === 'number' ? current : 0) + 1
+}
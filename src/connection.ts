@@ -1,10 +1,26 @@
-import type { DB, InitResponse, MigrationList } from './types'
-import { createTables } from './metadata'
+import type {
+  AutoVersionOptions,
+  BlockedOptions,
+  DB,
+  Database,
+  InitOptions,
+  InitResponse,
+  MigrationList,
+  SchemaRecord,
+} from './types'
+import {
+  _resolveDeclarations,
+  _schemaStoreName,
+  createTables,
+  getSchemaHash,
+} from './metadata'
 import { MigrationContext } from './migration'
+import { ConnectionError } from './errors'
+import { _channelFactory, _startBroadcast, _stopBroadcast } from './broadcast'
 
-// TODO: Support multiple connections
 /**
- * Global database connection, disconnected by default
+ * Global database connection, disconnected by default.
+ * It is used by every operation that isn't bound to another {@link Types.Database}.
  * @type {DB}
  * @category Global objects
  */
@@ -12,15 +28,45 @@ export const db: DB = {
   connected: false,
 }
 
+/**
+ * Creates a new database handle, disconnected by default.
+ * It can be connected with {@link init} and bound to models with {@link Table}.
+ *
+ * @example
+ * ```ts
+ * const cacheDB = createDatabase()
+ *
+ * @Table({ database: cacheDB })
+ * class CachedUser extends Model {
+ *   @Field({ primaryKey: true })
+ *   id!: number
+ * }
+ *
+ * await init('cache', 1, {}, { database: cacheDB })
+ * ```
+ * @returns {Database} - The new database handle
+ */
+export function createDatabase(): Database {
+  return {
+    connected: false,
+  }
+}
+
 /**
  * Utility function to store the database connection
+ * @param database - Database handle to update
  * @param _db - Database connection
  * @param dbName - Database name
  * @param version - Database version
  * @internal
  */
-function _updateDB(_db: IDBDatabase, dbName: string, version: number) {
-  Object.assign(db, {
+function _updateDB(
+  database: Database,
+  _db: IDBDatabase,
+  dbName: string,
+  version: number,
+) {
+  Object.assign(database, {
     session: _db,
     connected: true,
     name: dbName,
@@ -29,12 +75,97 @@ function _updateDB(_db: IDBDatabase, dbName: string, version: number) {
 }
 
 /**
- * Starts a new global database connection.
+ * Utility function to handle the `blocked` event of a request.
+ * The callback is notified, and the request fails after the timeout if there's one.
+ * @param request - The open or delete request
+ * @param dbName - Database name
+ * @param options - The blocked options
+ * @param reject - Called with a {@link ConnectionError} once the timeout expires
+ * @returns - A function to call once the request is unblocked, telling whether it timed out
+ * @internal
+ */
+function _handleBlocked(
+  request: IDBOpenDBRequest,
+  dbName: string,
+  options: BlockedOptions,
+  reject: (reason: unknown) => void,
+): () => boolean {
+  let timedOut = false
+  let timeout: ReturnType<typeof setTimeout> | undefined
+
+  request.onblocked = (ev) => {
+    options.onBlocked?.({
+      name: dbName,
+      oldVersion: ev.oldVersion,
+      newVersion: ev.newVersion,
+    })
+
+    if (options.blockedTimeout !== undefined && timeout === undefined) {
+      timeout = setTimeout(() => {
+        timedOut = true
+        reject(
+          new ConnectionError(
+            `Database ${dbName} is blocked by another connection`,
+          ),
+        )
+      }, options.blockedTimeout)
+    }
+  }
+
+  return () => {
+    clearTimeout(timeout)
+    return timedOut
+  }
+}
+
+/**
+ * Utility function to handle the `versionchange` event of a live connection.
+ * @param database - Database handle owning the session
+ * @param session - Database connection
+ * @param dbName - Database name
+ * @param options - The connection options
+ * @internal
+ */
+function _handleVersionChange(
+  database: Database,
+  session: IDBDatabase,
+  dbName: string,
+  options: InitOptions,
+) {
+  if (!options.closeOnVersionChange && !options.onVersionChange)
+    return
+
+  session.onversionchange = (ev) => {
+    const closed = !!options.closeOnVersionChange
+    if (closed) {
+      if (database.connected && database.session === session)
+        disconnect(database)
+      else session.close()
+    }
+
+    options.onVersionChange?.({
+      name: dbName,
+      oldVersion: ev.oldVersion,
+      newVersion: ev.newVersion,
+      closed,
+    })
+  }
+}
+
+/**
+ * Starts a new database connection, on the global handle unless another one is provided.
  * Three scenarios are possible:
- * 1. There's already a connection, we reuse it
+ * 1. There's already a connection, we reuse it, it has to be to the same database
  * 2. There's no version bump, a new connection is created
  * 3. There's a version bump, a new connection is created, migrations are applied and tables created
  *
+ * Instead of a version, `{ autoVersion: true }` can be provided:
+ * a hash of the declared tables is stored in the database, and the version is bumped whenever it changes.
+ *
+ * A version bump is blocked while other connections (eg. other tabs) are open,
+ * `onBlocked` and `blockedTimeout` allow reacting to it.
+ * On the other side, `closeOnVersionChange` makes this connection step aside when another one upgrades.
+ *
  * @see {@link Types.MigrationList}: For more information on migrations
  *
  * @example
@@ -43,37 +174,156 @@ function _updateDB(_db: IDBDatabase, dbName: string, version: number) {
  * if (initResp.upgraded) {
  *  console.log("Database was upgraded")
  * }
+ *
+ * // The version is handled by W-ORM
+ * await init('my-db', { autoVersion: true })
+ *
+ * // Let other tabs upgrade, and fail if they don't let us
+ * await init('my-db', 2, migrations, {
+ *   blockedTimeout: 5000,
+ *   onBlocked: () => console.log("Please close the other tabs"),
+ *   closeOnVersionChange: true,
+ *   onVersionChange: () => console.log("The database was upgraded, please reload"),
+ * })
  * ```
  * @param dbName - The database name
  * @param version - The database version, a version bump will trigger an upgrade
  * @param migrations - A list of migrations to be applied
+ * @param options - Extra connection options
  * @returns {Promise<InitResponse>} - The database connection and whether an upgrade was performed
  */
+export async function init(
+  dbName: string,
+  options: AutoVersionOptions,
+): Promise<InitResponse>
 export async function init(
   dbName: string,
   version: number,
   migrations?: MigrationList,
+  options?: InitOptions,
+): Promise<InitResponse>
+export async function init(
+  dbName: string,
+  versionOrOptions: number | AutoVersionOptions,
+  migrations?: MigrationList,
+  options: InitOptions = {},
+): Promise<InitResponse> {
+  _resolveDeclarations()
+  if (typeof versionOrOptions === 'number')
+    return _open(dbName, versionOrOptions, migrations, options)
+
+  const autoOptions = versionOrOptions
+  const database = autoOptions.database || db
+  if (database.connected)
+    return _open(dbName, undefined, autoOptions.migrations, autoOptions)
+
+  const schemaHash = getSchemaHash(database)
+
+  // Open the current version, a new database is created with the hash
+  const initResp = await _open(
+    dbName,
+    undefined,
+    autoOptions.migrations,
+    autoOptions,
+    schemaHash,
+  )
+  if (initResp.upgraded)
+    return initResp
+  if ((await _getStoredHash(initResp.session)) === schemaHash)
+    return initResp
+
+  // The schema changed, reopen with a version bump
+  const version = initResp.session.version + 1
+  disconnect(database)
+  return _open(dbName, version, autoOptions.migrations, autoOptions, schemaHash)
+}
+
+/**
+ * Utility function to read the schema hash stored by `autoVersion`.
+ * @param session - Database connection
+ * @returns - The stored hash, or null if there's none
+ * @internal
+ */
+async function _getStoredHash(session: IDBDatabase): Promise<string | null> {
+  if (!session.objectStoreNames.contains(_schemaStoreName))
+    return null
+
+  const request = session
+    .transaction(_schemaStoreName, 'readonly')
+    .objectStore(_schemaStoreName)
+    .get(_schemaStoreName)
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (_) => {
+      reject(request.error)
+    }
+    request.onsuccess = (_) => {
+      const result = request.result as SchemaRecord | undefined
+      resolve(result?.hash ?? null)
+    }
+  })
+}
+
+/**
+ * Opens a database connection, see {@link init}.
+ * @param dbName - The database name
+ * @param version - The database version, the current one if undefined
+ * @param migrations - A list of migrations to be applied
+ * @param options - Extra connection options
+ * @param schemaHash - The schema hash to store during an upgrade
+ * @returns {Promise<InitResponse>} - The database connection and whether an upgrade was performed
+ * @internal
+ */
+async function _open(
+  dbName: string,
+  version: number | undefined,
+  migrations: MigrationList | undefined,
+  options: InitOptions,
+  schemaHash?: string,
 ): Promise<InitResponse> {
+  const database = options.database || db
+  // A handle only holds one connection, other databases need their own handle
+  if (database.connected && database.name !== dbName) {
+    throw new ConnectionError(
+      `The handle is already connected to ${database.name}, use createDatabase to connect to ${dbName}`,
+    )
+  }
+  const createChannel = _channelFactory(options.broadcast)
+
   return new Promise<InitResponse>((resolve, reject) => {
-    if (db.connected) {
+    if (database.connected) {
+      if (createChannel)
+        _startBroadcast(database, createChannel)
       resolve({
-        session: db.session,
+        session: database.session,
         upgraded: false,
+        db: database,
       })
       return
     }
 
     const request = indexedDB.open(dbName, version)
+    const unblocked = _handleBlocked(request, dbName, options, reject)
 
     request.onerror = (event) => {
+      unblocked()
       reject(event)
     }
 
     request.onsuccess = (_) => {
-      _updateDB(request.result, dbName, version)
+      if (unblocked()) {
+        request.result.close()
+        return
+      }
+
+      _updateDB(database, request.result, dbName, request.result.version)
+      _handleVersionChange(database, request.result, dbName, options)
+      if (createChannel)
+        _startBroadcast(database, createChannel)
       resolve({
         session: request.result,
         upgraded: false,
+        db: database,
       })
     }
 
@@ -81,7 +331,14 @@ export async function init(
       if (!request.transaction)
         throw new Error('No transaction available during upgrade')
 
-      _updateDB(request.result, dbName, version)
+      if (unblocked()) {
+        request.transaction.abort()
+        request.result.close()
+        return
+      }
+
+      _updateDB(database, request.result, dbName, request.result.version)
+      _handleVersionChange(database, request.result, dbName, options)
 
       const ctx = new MigrationContext(
         request.result,
@@ -91,7 +348,9 @@ export async function init(
 
       try {
         await ctx.runMigrations(ev.oldVersion, ev.newVersion)
-        createTables(request.result, request.transaction)
+        createTables(request.result, request.transaction, database)
+        if (schemaHash)
+          _storeHash(request.result, request.transaction, schemaHash)
       }
       catch (e) {
         request.transaction.abort()
@@ -100,44 +359,74 @@ export async function init(
       }
 
       request.transaction.oncomplete = () => {
+        if (createChannel)
+          _startBroadcast(database, createChannel)
         resolve({
           session: request.result,
           upgraded: true,
+          db: database,
         })
       }
     }
   })
 }
 
+/**
+ * Utility function to store the schema hash during an upgrade.
+ * @param session - The database being upgraded
+ * @param tx - The upgrade transaction
+ * @param hash - The schema hash
+ * @internal
+ */
+function _storeHash(session: IDBDatabase, tx: IDBTransaction, hash: string) {
+  const store = session.objectStoreNames.contains(_schemaStoreName)
+    ? tx.objectStore(_schemaStoreName)
+    : session.createObjectStore(_schemaStoreName)
+
+  const record: SchemaRecord = { hash, version: session.version }
+  store.put(record, _schemaStoreName)
+}
+
 /**
  * Deletes a specific database, use with caution.
- * Any open connection needs to be closed or this will hang indefinitely.
+ * Any open connection needs to be closed or this will hang until they are,
+ * use `blockedTimeout` to fail with a {@link ConnectionError} instead.
+ * Note that the deletion will still happen once the connections are closed.
  * @param dbName - The database name
+ * @param options - How to handle the request being blocked
  * @returns {Promise<Event>} - A promise that resolves to the delete event
  */
-export async function deleteDB(dbName: string): Promise<Event> {
+export async function deleteDB(
+  dbName: string,
+  options: BlockedOptions = {},
+): Promise<Event> {
   return new Promise((resolve, reject) => {
     const request = indexedDB.deleteDatabase(dbName)
+    const unblocked = _handleBlocked(request, dbName, options, reject)
 
     request.onerror = (event) => {
+      unblocked()
       reject(event)
     }
 
     request.onsuccess = (event) => {
+      unblocked()
       resolve(event)
     }
   })
 }
 
 /**
- * Closes the global database connection
+ * Closes a database connection
+ * @param database - The handle to disconnect, defaults to the global {@link db}
  */
-export function disconnect(): void {
-  if (!db.connected)
+export function disconnect(database: Database = db): void {
+  if (!database.connected)
     return
 
-  db.session.close()
-  Object.assign(db, {
+  _stopBroadcast(database)
+  database.session.close()
+  Object.assign(database, {
     connected: false,
     session: undefined,
     name: undefined,
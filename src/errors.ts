@@ -1,6 +1,7 @@
 /**
  * @module Errors
  */
+import type { ValidationIssue } from './types'
 
 /**
  * Base class for all errors thrown by the library
@@ -31,3 +32,30 @@ export class ModelError extends WormError {
     this.name = 'ModelError'
   }
 }
+
+/**
+ * Error thrown when the values of a model don't pass the validators of its fields.
+ * Every failed validation is listed in `errors`.
+ */
+export class ValidationError extends ModelError {
+  constructor(public errors: ValidationIssue[]) {
+    super(
+      `Validation failed: ${errors
+        .map(({ field, message }) => `${field} ${message}`)
+        .join(', ')}`,
+    )
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * Error thrown when a versioned row was written by someone else since it was read,
+ * see the `version` option of {@link W-ORM.Field}.
+ * The `current` values are the ones stored now, null if the row was deleted.
+ */
+export class ConcurrencyError extends WormError {
+  constructor(table: string, public current: object | null) {
+    super(`A row of ${table} was modified since it was read`)
+    this.name = 'ConcurrencyError'
+  }
+}
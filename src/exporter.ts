@@ -1,18 +1,28 @@
+import type { Database } from './types'
 import { db } from './connection'
 import { ConnectionError } from './errors'
+import { _getModelName, _schemaStoreName } from './metadata'
+import { _assertValid } from './validation'
+import { _fromDB, _toDB } from './serialization'
+import { _recordChange } from './observers'
 
 /**
  * Export a table from the database
  * This is equivalent to calling Table.all() but without wrapping the result in the table class.
+ * The fields' transformers are applied, so that the result can be imported back with {@link importTable}.
  *
  * @param table - The name of the table to export
+ * @param database - The database to export from, defaults to the global one
  * @returns An array containing the data from the table
  */
-export async function exportTable(table: string): Promise<unknown[]> {
-  if (!db.connected)
+export async function exportTable(
+  table: string,
+  database: Database = db,
+): Promise<unknown[]> {
+  if (!database.connected)
     throw new ConnectionError('Database not connected')
 
-  const transaction = db.session.transaction(table, 'readonly')
+  const transaction = database.session.transaction(table, 'readonly')
 
   const store = transaction.objectStore(table)
   const request = store.getAll()
@@ -23,39 +33,56 @@ export async function exportTable(table: string): Promise<unknown[]> {
     }
 
     request.onsuccess = () => {
-      resolve(request.result)
+      const modelName = _getModelName(table)
+      resolve(
+        modelName
+          ? request.result.map(row => _fromDB(modelName, row as object))
+          : request.result,
+      )
     }
   })
 }
 
 /**
- * Import data into a table
+ * Import data into a table.
+ * If the table belongs to a model, the entries are checked against its validators and its fields' transformers are applied.
  * @param table - The name of the table to import into
  * @param entries - The data to import
  * @param tx - An optional transaction to use
+ * @param database - The database to import into, defaults to the global one
  * @returns The number of entries imported
  */
 export async function importTable(
   table: string,
   entries: unknown[],
   tx?: IDBTransaction,
+  database: Database = db,
 ): Promise<number> {
-  if (!db.connected)
+  if (!database.connected)
     throw new ConnectionError('Database not connected')
 
+  const modelName = _getModelName(table)
+  if (modelName) {
+    for (const entry of entries)
+      _assertValid(modelName, entry as object)
+  }
+
   if (!tx)
-    tx = db.session.transaction(table, 'readwrite')
+    tx = database.session.transaction(table, 'readwrite')
 
   const store = tx.objectStore(table)
   const promises = []
   for (const entry of entries) {
     promises.push(
       new Promise<boolean>((resolve, reject) => {
-        const request = store.put(entry)
+        const request = store.put(
+          modelName ? _toDB(modelName, entry as object) : entry,
+        )
         request.onerror = (event) => {
           reject(event)
         }
         request.onsuccess = () => {
+          _recordChange(store.transaction, { table, type: 'update', keys: [request.result] })
           resolve(true)
         }
       }),
@@ -68,20 +95,23 @@ export async function importTable(
 /**
  * Export the entire database.
  * @param blacklist - An array of table names to exclude from the export
+ * @param database - The database to export, defaults to the global one
  * @returns An object containing the data from each table in the database
  */
 export async function exportDatabase(
   blacklist: string[] = [],
+  database: Database = db,
 ): Promise<Record<string, unknown[]>> {
-  if (!db.connected)
+  if (!database.connected)
     throw new ConnectionError('Database not connected')
 
   const exportData: Record<string, unknown[]> = {}
-  const tables = Array.from(db.session.objectStoreNames).filter(
-    table => !blacklist.includes(table),
+  const tables = Array.from(database.session.objectStoreNames).filter(
+    table => table !== _schemaStoreName && !blacklist.includes(table),
   )
 
-  for (const table of tables) exportData[table] = await exportTable(table)
+  for (const table of tables)
+    exportData[table] = await exportTable(table, database)
 
   return exportData
 }
@@ -90,22 +120,27 @@ export async function exportDatabase(
  * Import data into the database. The tables are expected to exist.
  *
  * @param data - An object containing the data to import
+ * @param database - The database to import into, defaults to the global one
  * @returns An object containing the number of entries imported into each table
  */
 export async function importDatabase(
   data: Record<string, unknown[]>,
+  database: Database = db,
 ): Promise<Record<string, number>> {
-  if (!db.connected)
+  if (!database.connected)
     throw new ConnectionError('Database not connected')
 
-  const tx = db.session.transaction(
-    Array.from(db.session.objectStoreNames),
+  const tx = database.session.transaction(
+    Array.from(database.session.objectStoreNames),
     'readwrite',
   )
 
   const promises = []
-  for (const table in data)
-    promises.push(importTable(table, data[table], tx).then(n => [table, n]))
+  for (const table in data) {
+    promises.push(
+      importTable(table, data[table], tx, database).then(n => [table, n]),
+    )
+  }
 
   return Promise.all(promises).then(
     results => Object.fromEntries(results) as Record<string, number>,
@@ -128,6 +163,9 @@ function objectToBlob(object: unknown): Blob {
  * Export the entire database to a Blob.
  * This can then be used to save the database to disk.
  */
-export function exportDatabaseToBlob(blacklist?: string[]): Promise<Blob> {
-  return exportDatabase(blacklist).then(objectToBlob)
+export function exportDatabaseToBlob(
+  blacklist?: string[],
+  database?: Database,
+): Promise<Blob> {
+  return exportDatabase(blacklist, database).then(objectToBlob)
 }
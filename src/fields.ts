@@ -18,11 +18,25 @@ import type { Model } from './models'
  * Multiple options can be passed to the decorator:
  *  - `primaryKey`: Whether the field is the primary key of the model,
  *                  if multiple fields are marked as primary key, their combination will be the key.
+ *  - `autoIncrement`: Whether the database generates the primary key, only for a single numeric primary key.
+ *                     It can be omitted when creating an instance, the generated key is set on it.
+ *  - `version`: Whether the field holds the version of the row, for optimistic concurrency.
+ *               It starts at 1 and is incremented by every save or update, which fail with a {@link Errors.ConcurrencyError}
+ *               if the row was written since it was read.
  *  - `unique`: Whether the field has an unique constraint. This will be enforced by the database.
  *  - `nullable`: Whether the field can be null, primary keys cannot be nullable.
  *  - `default`: The default value of the field, it can be a value or a function that returns the value.
- *  - `type`: The type of the field, it is automatically inferred with typescript.
+ *  - `type`: The type of the field, it is automatically inferred with typescript and enforced by strict tables.
  *  - `index`: Whether the field should be indexed, it is recommended to keep it unless the type isn't indexable (eg. a Blob).
+ *  - `transformer`: Converts the value to (`toDB`) and from (`fromDB`) what is stored, eg. for class instances.
+ *                   Filters take the values of the model, they are converted to be compared with the stored ones.
+ *
+ * Validators can also be declared, they are checked on every write and a {@link Errors.ValidationError} lists the failed ones:
+ *  - `min` / `max`: The bounds of a number or a date.
+ *  - `minLength` / `maxLength`: The bounds of the length of a string or an array.
+ *  - `pattern`: A regular expression a string has to match.
+ *  - `enum`: The list of allowed values.
+ *  - `validate`: A custom synchronous predicate, it can return an error message instead of `false`.
  *
  * @default
  * ```js
@@ -36,7 +50,7 @@ import type { Model } from './models'
  * @example
  * ```ts
  * class User extends Model {
- *   @Field({ primaryKey: true })
+ *   @Field({ primaryKey: true, autoIncrement: true })
  *   id: number
  *   @Field({ unique: true })
  *   username: string
@@ -46,6 +60,14 @@ import type { Model } from './models'
  *   createdAt: Date
  *   @Field({ index: false })
  *   profilePicture: Blob
+ *   @Field({ minLength: 3, pattern: /^[a-z]+$/ })
+ *   nickname: string
+ *   @Field({ validate: age => age >= 18 || 'must be an adult' })
+ *   age: number
+ *   @Field({ transformer: { toDB: m => m.cents, fromDB: c => new Money(c as number) } })
+ *   wallet: Money
+ *   @Field({ version: true })
+ *   version: number
  * }
  * ```
  * @param options
@@ -69,6 +91,10 @@ export function Field<T>(
 
     if (options.primaryKey && options.nullable)
       throw new ModelError('Primary key cannot be nullable')
+    if (options.autoIncrement && !options.primaryKey)
+      throw new ModelError('Only a primary key can be auto-incremented')
+    if (options.version && options.primaryKey)
+      throw new ModelError('A primary key cannot be a version')
 
     // Merge options with default values
     const newOptions: FieldOptions<T> = {
@@ -85,6 +111,42 @@ export function Field<T>(
   }
 }
 
+/**
+ * Describes a field holding the date the row was created, set by {@link Model.create}, the bulk writes and the upserts.
+ * The date comes from the clock, which {@link setClock} replaces.
+ * @see {@link Field} for the other options
+ *
+ * @example
+ * ```ts
+ * class Post extends Model {
+ *   @Field({ primaryKey: true })
+ *   id: number
+ *   @CreatedAt()
+ *   createdAt: Date
+ *   @UpdatedAt()
+ *   updatedAt: Date
+ * }
+ * ```
+ * @param options
+ */
+export function CreatedAt(
+  options: Partial<FieldOptions<Date>> = {},
+): PropertyDecorator {
+  return Field<Date>({ ...options, timestamp: 'created' })
+}
+
+/**
+ * Describes a field holding the date the row was last written,
+ * set on creation and by every {@link Model.save}, bulk write and {@link Query.update}.
+ * @see {@link CreatedAt} for an example
+ * @param options
+ */
+export function UpdatedAt(
+  options: Partial<FieldOptions<Date>> = {},
+): PropertyDecorator {
+  return Field<Date>({ ...options, timestamp: 'updated' })
+}
+
 /**
  * Create a new model from a definition.
  * Allows defining models without using the decorator syntax.
@@ -152,6 +214,22 @@ export function defineModel<T extends Model>(
  *   @Field({ nullable: false })
  *   text: string
  * }
+ *
+ * // The values can be checked against the types of the fields on every write,
+ * // 'coerce' also converts numeric strings and ISO date strings.
+ * @Table({ strict: 'coerce' })
+ * class Event extends BaseModel {
+ *   @Field()
+ *   date: Date
+ * }
+ *
+ * // Tables can be bound to a database other than the global one.
+ * const cacheDB = createDatabase()
+ * @Table({ database: cacheDB })
+ * class CachedPage extends Model {
+ *   @Field({ primaryKey: true })
+ *   url: string
+ * }
  * ```
  *
  * @see {@link Types.Index} for more information about indexes.
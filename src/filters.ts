@@ -0,0 +1,306 @@
+import type { FieldCondition, FieldTransformer, QueryFilter } from './types'
+import type { Model } from './models'
+
+/**
+ * A condition on a field's value, more expressive than an equality.
+ * @typeParam T - The type of the value to filter
+ */
+export abstract class FieldFilter<T> {
+  /**
+   * Checks if a value fits the filter.
+   * @param value - The value to check
+   * @returns - Whether the value fits the filter
+   */
+  public abstract fits(value: T): boolean
+
+  /**
+   * Returns the key ranges of an index holding the values fitting the filter.
+   * @returns - The key ranges, or null if the filter can't use an index
+   */
+  public keyRanges(): IDBKeyRange[] | null {
+    return null
+  }
+
+  /**
+   * Converts the values of the filter to what is stored, to be compared with the stored rows.
+   * @param _transformer - The transformer of the field
+   * @returns - The converted filter, the filter itself if it has no values
+   */
+  public toDB(_transformer: FieldTransformer<T>): FieldFilter<unknown> {
+    return this
+  }
+}
+
+export class InFilter<T> extends FieldFilter<T> {
+  /**
+   * A filter that checks if a value is one of a list.
+   * @param values - The accepted values
+   * @typeParam T - The type of the value to filter
+   */
+  constructor(public values: T[]) {
+    super()
+  }
+
+  public fits(value: T): boolean {
+    return this.values.includes(value)
+  }
+
+  /**
+   * A key range per value, if they can all be keys.
+   * @returns - The key ranges, or null if one of the values can't be a key
+   */
+  public keyRanges(): IDBKeyRange[] | null {
+    if (!this.values.every(_isValidKey))
+      return null
+    return this.values.map(value => IDBKeyRange.only(value))
+  }
+
+  public toDB(transformer: FieldTransformer<T>): InFilter<unknown> {
+    return new InFilter(this.values.map(value => _valueToDB(value, transformer)))
+  }
+}
+
+export class NotEqualFilter<T> extends FieldFilter<T> {
+  /**
+   * A filter that checks if a value is different from another one.
+   * It can't use an index, given that the rows without a value aren't in it.
+   * @param value - The refused value
+   * @typeParam T - The type of the value to filter
+   */
+  constructor(public value: T) {
+    super()
+  }
+
+  public fits(value: T): boolean {
+    return value !== this.value
+  }
+
+  public toDB(transformer: FieldTransformer<T>): NotEqualFilter<unknown> {
+    return new NotEqualFilter(_valueToDB(this.value, transformer))
+  }
+}
+
+export class OrFilter<C> extends FieldFilter<unknown> {
+  /**
+   * A filter that checks if any of its conditions is fulfilled.
+   * On a field, the conditions are the ones of the field; in {@link Query.filter}, they are whole filters.
+   * @param conditions - The conditions
+   * @typeParam C - The type of the conditions
+   */
+  constructor(public conditions: C[]) {
+    super()
+  }
+
+  public fits(value: unknown): boolean {
+    return this.conditions.some(condition => _fitsCondition(condition, value))
+  }
+
+  /**
+   * The key ranges of all the conditions, if they can all use an index.
+   * @returns - The key ranges, or null if one of the conditions can't use an index
+   */
+  public keyRanges(): IDBKeyRange[] | null {
+    const ranges: IDBKeyRange[] = []
+    for (const condition of this.conditions) {
+      const conditionRanges = _conditionKeyRanges(condition)
+      if (!conditionRanges)
+        return null
+      ranges.push(...conditionRanges)
+    }
+    return ranges
+  }
+
+  public toDB(transformer: FieldTransformer<unknown>): OrFilter<unknown> {
+    return new OrFilter(this.conditions.map(condition => _conditionToDB(condition, transformer)))
+  }
+}
+
+export class NotFilter<C> extends FieldFilter<unknown> {
+  /**
+   * A filter that checks if its condition isn't fulfilled.
+   * On a field, the condition is one of the field; in {@link Query.filter}, it is a whole filter.
+   * @param condition - The condition
+   * @typeParam C - The type of the condition
+   */
+  constructor(public condition: C) {
+    super()
+  }
+
+  public fits(value: unknown): boolean {
+    return !_fitsCondition(this.condition, value)
+  }
+
+  public toDB(transformer: FieldTransformer<unknown>): NotFilter<unknown> {
+    return new NotFilter(_conditionToDB(this.condition, transformer))
+  }
+}
+
+/**
+ * A filter that checks if a value is one of a list.
+ * An index can be used, with a key range per value.
+ * @param values - The accepted values
+ * @typeParam T - The type of the value to filter
+ * @example
+ * ```ts
+ * // Get all users named John or Jane
+ * const query = User.filter({ name: In(['John', 'Jane']) })
+ * ```
+ */
+export function In<T>(values: T[]): InFilter<T> {
+  return new InFilter(values)
+}
+
+/**
+ * A filter that checks if a value is different from another one.
+ * @param value - The refused value
+ * @typeParam T - The type of the value to filter
+ * @example
+ * ```ts
+ * // Get all users not named John
+ * const query = User.filter({ name: NotEqual('John') })
+ * ```
+ */
+export function NotEqual<T>(value: T): NotEqualFilter<T> {
+  return new NotEqualFilter(value)
+}
+
+/**
+ * A filter that checks if any of its conditions is fulfilled.
+ * It can be used on a field, where an index is used if all the conditions can use it,
+ * or to combine whole filters.
+ * @param conditions - The conditions
+ * @typeParam C - The type of the conditions
+ * @example
+ * ```ts
+ * // Get all the children and seniors, with two ranges of the age index
+ * const query = User.filter({ age: or(Between(0, 17), Between(65, null)) })
+ * // Get all users named John or aged 20
+ * const query = User.filter(or({ name: 'John' }, { age: 20 }))
+ * ```
+ */
+export function or<C extends unknown[]>(...conditions: C): OrFilter<C[number]> {
+  return new OrFilter(conditions)
+}
+
+/**
+ * A filter that checks if its condition isn't fulfilled.
+ * It can be used on a field, or to negate a whole filter.
+ * @param condition - The condition
+ * @typeParam C - The type of the condition
+ * @example
+ * ```ts
+ * // Get all users not aged between 20 and 30
+ * const query = User.filter({ age: not(Between(20, 30)) })
+ * // Get all users but the 20 years old Johns
+ * const query = User.filter(not({ name: 'John', age: 20 }))
+ * ```
+ */
+export function not<C>(condition: C): NotFilter<C> {
+  return new NotFilter(condition)
+}
+
+/**
+ * Checks if a value fits the condition of a field.
+ * @param condition - The condition: a value to compare, a {@link FieldFilter} or a function
+ * @param value - The value to check
+ * @returns - Whether the value fits the condition
+ * @internal
+ */
+export function _fitsCondition<T>(
+  condition: FieldCondition<T>,
+  value: T,
+): boolean {
+  if (typeof condition === 'function')
+    return (condition as (value: T) => boolean)(value)
+  if (condition instanceof FieldFilter)
+    return condition.fits(value)
+  return value === condition
+}
+
+/**
+ * Computes the key ranges of an index holding the values fitting the condition of a field.
+ * @param condition - The condition
+ * @returns - The key ranges, or null if the condition can't use an index, eg. a value that can't be a key
+ * @internal
+ */
+export function _conditionKeyRanges<T>(
+  condition: FieldCondition<T>,
+): IDBKeyRange[] | null {
+  if (typeof condition === 'function')
+    return null
+  if (condition instanceof FieldFilter)
+    return condition.keyRanges()
+  if (!_isValidKey(condition))
+    return null
+  return [IDBKeyRange.only(condition)]
+}
+
+/**
+ * Checks if a value can be compared by IDB, eg. not null or a boolean.
+ * @param value - The value
+ * @returns - Whether the value is a valid key
+ * @internal
+ */
+export function _isValidKey(value: unknown): boolean {
+  try {
+    indexedDB.cmp(value, value)
+    return true
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Converts a value of a filter to what is stored, `null` and `undefined` being kept as is.
+ * @param value - The value
+ * @param transformer - The transformer of the field
+ * @returns - The stored value
+ * @internal
+ */
+export function _valueToDB<T>(value: T, transformer: FieldTransformer<T>): unknown {
+  return (value === undefined || value === null) ? value : transformer.toDB(value)
+}
+
+/**
+ * Converts the condition of a field to be checked against the stored values, given the transformer of the field.
+ * The functions are given the values converted back.
+ * @param condition - The condition
+ * @param transformer - The transformer of the field
+ * @returns - The converted condition
+ * @internal
+ */
+export function _conditionToDB<T>(
+  condition: FieldCondition<T>,
+  transformer: FieldTransformer<T>,
+): FieldCondition<unknown> {
+  if (typeof condition === 'function') {
+    const check = condition as (value: T) => boolean
+    return (value: unknown) =>
+      check((value === undefined || value === null) ? value as T : transformer.fromDB(value))
+  }
+  if (condition instanceof FieldFilter)
+    return condition.toDB(transformer)
+  return _valueToDB(condition, transformer)
+}
+
+/**
+ * Checks if a row fits a filter of a query, combined or not.
+ * @param filter - The filter: the conditions of the fields, or an {@link OrFilter}/{@link NotFilter} of filters
+ * @param row - The row to check
+ * @returns - Whether the row fits the filter
+ * @internal
+ */
+export function _fitsFilter<T extends Model>(
+  filter: QueryFilter<T>,
+  row: T,
+): boolean {
+  if (filter instanceof OrFilter)
+    return filter.conditions.some(condition => _fitsFilter(condition, row))
+  if (filter instanceof NotFilter)
+    return !_fitsFilter(filter.condition, row)
+
+  return Object.entries(filter).every(([key, condition]) =>
+    _fitsCondition(condition, row[key as keyof T]),
+  )
+}
@@ -0,0 +1,117 @@
+import type {
+  BulkHookEvent,
+  Constructor,
+  HookCallback,
+  HookEvent,
+  InstanceHookEvent,
+} from './types'
+import type { Model } from './models'
+import { TablesMetadata, _addHookToMetadata, _handleTableData } from './metadata'
+import { WormError } from './errors'
+
+const bulkHookEvents: HookEvent[] = [
+  'beforeBulkUpdate',
+  'afterBulkUpdate',
+  'beforeBulkDelete',
+  'afterBulkDelete',
+]
+
+/**
+ * Registers a method as a lifecycle hook of a model.
+ * This is the decorator form of overriding the hook methods of {@link Model}, both can be combined.
+ *
+ * The following events run on instance methods, receiving the transaction of the write:
+ *  - `beforeCreate` / `afterCreate`: Around {@link Model.create}, `beforeCreate` runs after the defaults are applied.
+ *  - `beforeSave` / `afterSave`: Around {@link Model.save}.
+ *  - `beforeDelete` / `afterDelete`: Around {@link Model.delete}.
+ *
+ * The following events run on static methods, around the cursor based writes of a {@link Query}:
+ *  - `beforeBulkUpdate(query, updates, tx)`: The updates can be modified.
+ *  - `afterBulkUpdate(query, keys, tx)`: Receives the primary keys of the updated rows.
+ *  - `beforeBulkDelete(query, tx)`
+ *  - `afterBulkDelete(query, keys, tx)`: Receives the primary keys of the deleted rows.
+ *
+ * Hooks run in the same transaction as the write, throwing an error aborts the write.
+ * They can be async, as long as they only await operations on that transaction.
+ *
+ * @param event - The event to run the method on
+ *
+ * @example
+ * ```ts
+ * class User extends Model {
+ *   @Field({ primaryKey: true })
+ *   id: number
+ *   @Field()
+ *   updatedAt: Date
+ *
+ *   @Hook('beforeSave')
+ *   stamp() {
+ *     this.updatedAt = new Date()
+ *   }
+ *
+ *   @Hook('afterDelete')
+ *   async log(tx: IDBTransaction) {
+ *     await AuditLog.create({ table: 'User', key: this.id }, tx)
+ *   }
+ * }
+ * ```
+ */
+export function Hook(event: HookEvent): MethodDecorator {
+  return function (object, propertyName) {
+    if (typeof propertyName === 'symbol')
+      throw new WormError('Hook decorator doesn\'t support symbols')
+
+    const isStatic = typeof object === 'function'
+    if (isStatic !== bulkHookEvents.includes(event)) {
+      throw new WormError(
+        `${event} hooks must be ${isStatic ? 'instance' : 'static'} methods`,
+      )
+    }
+
+    const prototype = (isStatic ? object.prototype : object) as Model
+    _handleTableData(prototype)
+    _addHookToMetadata(prototype.constructor.name, event, propertyName)
+  }
+}
+
+/**
+ * Runs the hooks of an instance for an event: the overridable method first, then the decorated ones.
+ * @param instance - The model instance
+ * @param event - The event to run
+ * @param tx - The transaction of the write
+ * @internal
+ */
+export async function _runHooks(
+  instance: Model,
+  event: InstanceHookEvent,
+  tx: IDBTransaction,
+): Promise<void> {
+  await instance[event](tx)
+
+  const hooks = TablesMetadata[instance.constructor.name]?.hooks[event] || []
+  for (const hook of hooks) {
+    if (hook === event)
+      continue
+    const method = instance[hook as keyof Model] as unknown as HookCallback
+    await method.call(instance, tx)
+  }
+}
+
+/**
+ * Runs the static hooks of a model for a bulk event: the overridable method first, then the decorated ones.
+ * @param model - The model class
+ * @param event - The event to run
+ * @param args - The arguments of the hook
+ * @internal
+ */
+export async function _runBulkHooks(
+  model: Constructor<Model>,
+  event: BulkHookEvent,
+  ...args: unknown[]
+): Promise<void> {
+  const statics = model as unknown as Record<string, HookCallback>
+
+  const hooks = TablesMetadata[model.name]?.hooks[event] || []
+  for (const hook of [event, ...hooks.filter(hook => hook !== event)])
+    await statics[hook].call(model, ...args)
+}
@@ -10,3 +10,9 @@ export * from './models'
 export * from './query'
 export * from './transaction'
 export * from './exporter'
+export * from './hooks'
+export * from './validation'
+export * from './relations'
+export * from './filters'
+export * from './aggregates'
+export * from './timestamps'
@@ -1,7 +1,10 @@
 import type {
+  Database,
   FieldOptions,
+  HookEvent,
   Index,
   ParsedIndexes,
+  Relation,
   TableMetadata,
   TableOptions,
 } from './types'
@@ -36,12 +39,75 @@ export function _addFieldToMetadata<T>(
   TablesMetadata[tableName].fields[fieldName] = options
 }
 
+/**
+ * Helper function to add a hook to the metadata.
+ * @param tableName - The table's name
+ * @param event - The hook's event
+ * @param methodName - The name of the method to call
+ * @internal
+ */
+export function _addHookToMetadata(
+  tableName: string,
+  event: HookEvent,
+  methodName: string,
+) {
+  if (!TablesMetadata[tableName])
+    throw new WormError(`Table ${tableName} is not defined`)
+  const hooks = TablesMetadata[tableName].hooks
+  // A new array is used so that the parent's hooks aren't modified
+  hooks[event] = [...(hooks[event] || []), methodName]
+}
+
+/**
+ * Helper function to add a relation to the metadata.
+ * @param tableName - The table's name
+ * @param name - The relation's name
+ * @param relation - The relation
+ * @internal
+ */
+export function _addRelationToMetadata(
+  tableName: string,
+  name: string,
+  relation: Relation,
+) {
+  if (!TablesMetadata[tableName])
+    throw new WormError(`Table ${tableName} is not defined`)
+  if (name in TablesMetadata[tableName].fields)
+    throw new ModelError(`Relation ${name} of ${tableName} is already a field`)
+  TablesMetadata[tableName].relations[name] = relation
+}
+
+/**
+ * Declarations waiting for the models they reference to be defined.
+ * @internal
+ */
+const pendingDeclarations: (() => void)[] = []
+
+/**
+ * Helper function to delay a declaration until the models it references are defined.
+ * @param declaration - The declaration, run by {@link _resolveDeclarations}
+ * @internal
+ */
+export function _addPendingDeclaration(declaration: () => void) {
+  pendingDeclarations.push(declaration)
+}
+
+/**
+ * Runs the pending declarations, it is done when connecting and before the tables are used.
+ * @internal
+ */
+export function _resolveDeclarations() {
+  for (const declaration of pendingDeclarations.splice(0))
+    declaration()
+}
+
 /**
  * Helper function to reset the metadata.
  * @internal
  */
 export function _resetMetadata() {
   for (const tableName in TablesMetadata) delete TablesMetadata[tableName]
+  pendingDeclarations.length = 0
 }
 
 /**
@@ -63,6 +129,8 @@ export function _handleTableData<T>(instance: T) {
     hasChild: false,
     indexes: {},
     tableName: modelClassName,
+    hooks: {},
+    relations: {},
   }
 
   const parentName = (
@@ -75,10 +143,23 @@ export function _handleTableData<T>(instance: T) {
     if (!parentMetadata)
       throw new WormError(`Parent table ${parentName} is not defined`)
 
+    // The inherited relations now start from the child
+    const relations = { ...parentMetadata.relations }
+    for (const name in relations) {
+      relations[name] = {
+        ...relations[name],
+        source: instance.constructor as Relation['source'],
+      }
+    }
+
     Object.assign(TablesMetadata[modelClassName], {
       fields: { ...parentMetadata.fields },
       extends: parentName,
       indexes: { ...parentMetadata.indexes },
+      database: parentMetadata.database,
+      hooks: { ...parentMetadata.hooks },
+      strict: parentMetadata.strict,
+      relations,
     })
 
     parentMetadata.hasChild = true
@@ -102,6 +183,11 @@ export function _overrideTableData<T>(
     abstract: tableOptions.abstract,
   })
 
+  if (tableOptions.database)
+    TablesMetadata[modelClassName].database = tableOptions.database
+  if (tableOptions.strict !== undefined)
+    TablesMetadata[modelClassName].strict = tableOptions.strict
+
   if (tableOptions.indexes) {
     const parsedIndexes: ParsedIndexes = {}
     for (const indexName in tableOptions.indexes)
@@ -110,6 +196,20 @@ export function _overrideTableData<T>(
   }
 }
 
+/**
+ * Find the model a table belongs to.
+ * @param tableName - The table's name
+ * @returns - The class name of the model, or undefined if there's none
+ * @internal
+ */
+export function _getModelName(tableName: string): string | undefined {
+  return Object.keys(TablesMetadata).find(
+    modelName =>
+      TablesMetadata[modelName].tableName === tableName
+      && _isConcrete(TablesMetadata[modelName]),
+  )
+}
+
 /**
  * Extract the primary keys of a table from its metadata.
  * @param modelName The class name of the table
@@ -129,26 +229,201 @@ export function getPrimaryKeys(modelName: string): string[] {
   return primaryKeys
 }
 
+/**
+ * Find the auto-incremented primary key of a table, only a single primary key can be auto-incremented.
+ * @param modelName - The class name of the table
+ * @returns - The name of the auto-incremented field, or undefined if there's none
+ * @throws {ModelError} If the auto-incremented key is part of a compound key
+ * @internal
+ */
+export function _getAutoIncrementKey(modelName: string): string | undefined {
+  const primaryKeys = getPrimaryKeys(modelName)
+  const tableFields = TablesMetadata[modelName]?.fields || {}
+  const autoIncrementKey = primaryKeys.find(
+    key => tableFields[key].autoIncrement,
+  )
+
+  if (autoIncrementKey && primaryKeys.length > 1) {
+    throw new ModelError(
+      `Table ${TablesMetadata[modelName].tableName} can't auto-increment a compound primary key`,
+    )
+  }
+  return autoIncrementKey
+}
+
+/**
+ * Find the version field of a table, see the `version` option of {@link Field}.
+ * @param modelName - The class name of the table
+ * @returns - The name of the version field, or undefined if there's none
+ * @throws {ModelError} If several fields are versions
+ * @internal
+ */
+export function _getVersionField(modelName: string): string | undefined {
+  const tableFields = TablesMetadata[modelName]?.fields || {}
+  const versionFields = Object.keys(tableFields).filter(
+    field => tableFields[field].version,
+  )
+
+  if (versionFields.length > 1) {
+    throw new ModelError(
+      `Table ${TablesMetadata[modelName].tableName} can only have one version field`,
+    )
+  }
+  return versionFields[0]
+}
+
+/**
+ * Lists the names of the relations of a table, from both of their sides.
+ * @param modelName - The class name of the table
+ * @returns - The relation names
+ * @internal
+ */
+export function _getRelationNames(modelName: string): string[] {
+  const names = Object.keys(TablesMetadata[modelName]?.relations || {})
+
+  for (const otherName in TablesMetadata) {
+    if (!_isConcrete(TablesMetadata[otherName]))
+      continue
+    for (const relation of Object.values(TablesMetadata[otherName].relations)) {
+      if (relation.related && relation.target().name === modelName)
+        names.push(relation.related)
+    }
+  }
+  return names
+}
+
+/**
+ * Name of the internal table storing the schema hash, used by `autoVersion`.
+ * @internal
+ */
+export const _schemaStoreName = '_wormSchema'
+
+/**
+ * Whether a table should be created in a database.
+ * Abstract tables are skipped, as well as tables bound to another database.
+ * @param metadata - The table's metadata
+ * @param database - The database handle
+ * @returns - True if the table belongs to the database
+ * @internal
+ */
+function _belongsTo(metadata: TableMetadata, database?: Database): boolean {
+  if (!_isConcrete(metadata))
+    return false
+  return !metadata.database || metadata.database === database
+}
+
+/**
+ * Whether a table is an actual table, a parent table is abstract by default.
+ * @param metadata - The table's metadata
+ * @returns - False if the table is abstract
+ * @internal
+ */
+export function _isConcrete(metadata: TableMetadata): boolean {
+  return !(
+    metadata.abstract
+    || (metadata.abstract === undefined && metadata.hasChild)
+  )
+}
+
+/**
+ * Computes the indexes of a table, both the indexed fields and the extra indexes.
+ * @param modelName - The class name of the table
+ * @returns - The indexes of the table
+ * @internal
+ */
+export function _getIndexes(modelName: string): ParsedIndexes {
+  const { fields: tableFields, indexes: extraIndexes } = TablesMetadata[modelName]
+  const indexes: ParsedIndexes = { ...extraIndexes }
+
+  for (const fieldName in tableFields) {
+    const field = tableFields[fieldName]
+    if (!field.index)
+      continue
+
+    indexes[fieldName] = {
+      fields: [fieldName],
+      unique: field.unique,
+      multiEntry: false,
+    }
+  }
+
+  return indexes
+}
+
+/**
+ * Computes a hash of the schema declared for a database: its tables, primary keys and indexes.
+ * It is used by `autoVersion` to detect when the database needs to be upgraded.
+ * @param database - The database handle, unbound tables are always included
+ * @returns - The hash of the schema
+ */
+export function getSchemaHash(database?: Database): string {
+  _resolveDeclarations()
+  const tables = Object.keys(TablesMetadata)
+    .filter(modelName => _belongsTo(TablesMetadata[modelName], database))
+    .map((modelName) => {
+      const indexes = _getIndexes(modelName)
+      const autoIncrementKey = _getAutoIncrementKey(modelName)
+      return [
+        TablesMetadata[modelName].tableName,
+        autoIncrementKey
+          ? { autoIncrement: autoIncrementKey }
+          : getPrimaryKeys(modelName),
+        Object.keys(indexes)
+          .sort()
+          .map(name => [
+            name,
+            indexes[name].fields,
+            !!indexes[name].unique,
+            !!indexes[name].multiEntry,
+          ]),
+      ] as const
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+  return _hashString(JSON.stringify(tables))
+}
+
+/**
+ * Hashes a string, using the FNV-1a algorithm.
+ * @param str - The string to hash
+ * @returns - The hash as an hexadecimal string
+ * @internal
+ */
+function _hashString(str: string): string {
+  let hash = 0x811C9DC5
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
 /**
  * Uses the metadata to create the tables in the database.
  * This function is called automatically when the database is upgraded and
  * will only work within an upgrade context.
+ *
+ * Tables bound to another database are skipped, unbound tables are created in every database.
+ * @param session - The database being upgraded
+ * @param tx - The upgrade transaction
+ * @param database - The handle being upgraded
  * @throws {Error} Error if the database is not connected
  * @internal
  */
-export function createTables(session: IDBDatabase, tx: IDBTransaction): void {
+export function createTables(
+  session: IDBDatabase,
+  tx: IDBTransaction,
+  database?: Database,
+): void {
+  _resolveDeclarations()
   for (const modelName in TablesMetadata) {
     const metadata = TablesMetadata[modelName]
-    if (
-      metadata.abstract
-      || (metadata.abstract === undefined && metadata.hasChild)
-    )
+    if (!_belongsTo(metadata, database))
       continue
 
     const tableName = metadata.tableName
-    const tableFields = metadata.fields
-    const extraIndexes = metadata.indexes
     const primaryKeys = getPrimaryKeys(modelName)
+    const autoIncrementKey = _getAutoIncrementKey(modelName)
 
     let store: IDBObjectStore
     if (session.objectStoreNames.contains(tableName)) {
@@ -157,45 +432,34 @@ export function createTables(session: IDBDatabase, tx: IDBTransaction): void {
         ? store.keyPath
         : [store.keyPath]
 
-      if (!_compareArrays(currentKeys, primaryKeys)) {
+      if (
+        !_compareArrays(currentKeys, primaryKeys)
+        || store.autoIncrement !== !!autoIncrementKey
+      ) {
         throw new ModelError(
           `Table ${tableName} has a different primary key than the one in the database.`,
         )
       }
     }
     else {
-      store = session.createObjectStore(tableName, { keyPath: primaryKeys })
+      store = session.createObjectStore(
+        tableName,
+        autoIncrementKey
+          ? { keyPath: autoIncrementKey, autoIncrement: true }
+          : { keyPath: primaryKeys },
+      )
     }
 
     const oldIndexes = new Set(store.indexNames)
-    const newIndexes = new Set(
-      Object.keys(tableFields).filter(
-        fieldName => tableFields[fieldName].index,
-      ),
-    )
-    for (const indexName in extraIndexes) newIndexes.add(indexName)
+    const newIndexes = _getIndexes(modelName)
 
     for (const oldIndex of oldIndexes) {
-      if (!newIndexes.has(oldIndex))
+      if (!(oldIndex in newIndexes))
         store.deleteIndex(oldIndex)
     }
 
-    for (const newIndex of newIndexes) {
-      let indexDef: Index
-      if (newIndex in tableFields) {
-        const field = tableFields[newIndex]
-        indexDef = {
-          fields: [newIndex],
-          unique: field.unique,
-          multiEntry: false,
-        }
-      }
-      else {
-        indexDef = extraIndexes[newIndex]
-      }
-
-      _createIndex(oldIndexes, store, newIndex, indexDef)
-    }
+    for (const newIndex in newIndexes)
+      _createIndex(oldIndexes, store, newIndex, newIndexes[newIndex])
   }
 }
 
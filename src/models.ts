@@ -1,9 +1,52 @@
-import type { Filter, ForEachCallback, OrderBy } from './types'
-import { TablesMetadata, getPrimaryKeys } from './metadata'
-import { _objectStore } from './transaction'
-import type { BetweenFilter } from './query'
+import type {
+  AggregateResults,
+  Aggregates,
+  BulkFailure,
+  BulkOptions,
+  BulkResult,
+  Filter,
+  ForEachCallback,
+  GetOrCreateResult,
+  ModelFieldKey,
+  OrderBy,
+  QueryFilter,
+  SaveOptions,
+  TableChange,
+  UpsertOptions,
+} from './types'
+import {
+  TablesMetadata,
+  _getAutoIncrementKey,
+  _getIndexes,
+  _getVersionField,
+  getPrimaryKeys,
+} from './metadata'
+import { _getDatabase, _objectStore, _transaction } from './transaction'
+import type { FieldFilter } from './filters'
 import { Query } from './query'
+import type { GroupedQuery } from './query'
 import { ModelError } from './errors'
+import { _runHooks } from './hooks'
+import { _onChanges, _recordChange } from './observers'
+import { _assertValid } from './validation'
+import { _assertVersion, _bumpVersion } from './concurrency'
+import { _touchTimestamps } from './timestamps'
+import {
+  _applyOnDelete,
+  _deleteTables,
+  _findForeignKey,
+  _referencedKey,
+} from './relations'
+import {
+  _changedFields,
+  _fromDB,
+  _fromStoreKey,
+  _instantiate,
+  _previousValue,
+  _snapshot,
+  _toDB,
+  _toStoreKey,
+} from './serialization'
 
 /**
  * Base class for all models.
@@ -58,38 +101,218 @@ export abstract class Model implements Record<string, any> {
   ): Promise<T> {
     const instance = new this()
     Object.assign(instance, values)
+    _applyDefaults(this.name, instance)
 
-    const tableDef = TablesMetadata[this.name] || {
-      fields: {},
-    }
+    // Save instance to database
+    const store = _objectStore(this.name, tx || 'readwrite')
+    const autoIncrementKey = _getAutoIncrementKey(this.name)
 
-    for (const [field, fieldOpts] of Object.entries(tableDef.fields)) {
-      // Check if field is defined
-      if (instance[field as keyof T] === undefined) {
-        // Check if field has a default value
-        if (fieldOpts.default !== undefined && fieldOpts.default !== null) {
-          // Check if default value is a generator
-          if (fieldOpts.default instanceof Function)
-            instance[field as keyof T] = fieldOpts.default() as T[keyof T]
-          else instance[field as keyof T] = fieldOpts.default as T[keyof T]
+    await _withHooks(instance, 'Create', store.transaction, !tx, () => {
+      const record = _createRecord(this.name, instance)
+
+      return new Promise<void>((resolve, reject) => {
+        const request = store.add(record)
+        request.onerror = (_) => {
+          reject(request.error)
         }
-        else if (!fieldOpts.nullable) {
-          throw new ModelError(`Field ${field} is not nullable`)
+        request.onsuccess = (_) => {
+          _recordChange(store.transaction, { table: store.name, type: 'create', keys: [request.result] })
+          if (autoIncrementKey) {
+            const [key] = _fromStoreKey(this.name, request.result)
+            instance[autoIncrementKey as keyof T] = key as T[keyof T]
+          }
+          _snapshot(instance)
+          resolve()
         }
-      }
-    }
+      })
+    })
+
+    return instance
+  }
+
+  /**
+   * Create many model instances in a single transaction.
+   * Every instance gets its default values, hooks and checks like with {@link create}.
+   * By default it fails atomically: the first error aborts the transaction, unless it was provided.
+   * @param values - The values of each instance
+   * @param options - Whether to keep going past the failed items
+   * @returns - The new instances in the order of the values, and the failed items
+   *
+   * @example
+   * ```ts
+   * const { results } = await User.bulkCreate([{ name: 'John' }, { name: 'Jane' }])
+   *
+   * // Skip the duplicates
+   * const { failed } = await User.bulkCreate(users, { continueOnError: true })
+   * console.log(`Items ${failed.map(f => f.index).join(', ')} failed`)
+   * ```
+   */
+  public static async bulkCreate<T extends Model>(
+    this: { new (): T },
+    values: Partial<T>[],
+    options: BulkOptions = {},
+    tx?: IDBTransaction,
+  ): Promise<BulkResult<T>> {
+    const instances = values.map((value) => {
+      const instance = new this()
+      Object.assign(instance, value)
+      _applyDefaults(this.name, instance)
+      return instance
+    })
 
-    // Save instance to database
     const store = _objectStore(this.name, tx || 'readwrite')
+    const autoIncrementKey = _getAutoIncrementKey(this.name)
 
-    return new Promise((resolve, reject) => {
-      const request = store.add(instance)
-      request.onerror = (_) => {
-        reject(request.error)
-      }
-      request.onsuccess = (_) => {
-        resolve(instance)
-      }
+    return _bulkWrite(instances, 'Create', store, !tx, options, {
+      request: instance => store.add(_createRecord(this.name, instance)),
+      written: (instance, key) => {
+        if (autoIncrementKey) {
+          const [value] = _fromStoreKey(this.name, key)
+          instance[autoIncrementKey as keyof T] = value as T[keyof T]
+        }
+      },
+    })
+  }
+
+  /**
+   * Save the changes of many model instances in a single transaction.
+   * @see {@link bulkCreate} for more information about the options and the result
+   *
+   * @param instances - The instances to save
+   * @param options - Whether to keep going past the failed items
+   * @returns - The saved instances, and the failed items
+   */
+  public static async bulkSave<T extends Model>(
+    this: { new (): T },
+    instances: T[],
+    options: BulkOptions = {},
+    tx?: IDBTransaction,
+  ): Promise<BulkResult<T>> {
+    const store = _objectStore(this.name, tx || 'readwrite')
+    const versionField = _getVersionField(this.name)
+    const records = new Map<T, Record<string, unknown>>()
+
+    return _bulkWrite(instances, 'Save', store, !tx, options, {
+      prepare: async (instance) => {
+        _touchTimestamps(this.name, instance, false)
+        _assertValid(this.name, instance)
+        const record = { ..._toDB(this.name, instance) } as Record<string, unknown>
+        if (versionField) {
+          const stored = await _readRow(store, _toStoreKey(this.name, instance.keys))
+          _assertVersion(this.name, stored, record[versionField])
+          _bumpVersion(this.name, record, stored)
+        }
+        records.set(instance, record)
+      },
+      request: instance => store.put(records.get(instance)),
+      written: (instance) => {
+        if (versionField)
+          instance[versionField as keyof T] = records.get(instance)?.[versionField] as T[keyof T]
+      },
+    })
+  }
+
+  /**
+   * Delete many model instances in a single transaction.
+   * The `onDelete` actions of the relations referencing them are applied, see {@link ForeignKey}.
+   * @see {@link bulkCreate} for more information about the options and the result
+   *
+   * @param instances - The instances to delete
+   * @param options - Whether to keep going past the failed items
+   * @returns - The deleted instances, and the failed items
+   */
+  public static async bulkDelete<T extends Model>(
+    this: { new (): T },
+    instances: T[],
+    options: BulkOptions = {},
+    tx?: IDBTransaction,
+  ): Promise<BulkResult<T>> {
+    const store = _objectStore(
+      this.name,
+      tx || _transaction(this.name, _deleteTables(this.name), 'readwrite'),
+    )
+
+    return _bulkWrite(instances, 'Delete', store, !tx, options, {
+      prepare: instance => _applyOnDelete(instance, store.transaction),
+      request: instance => store.delete(_toStoreKey(this.name, instance.keys)),
+    })
+  }
+
+  /**
+   * Create a model instance, or update the existing one with the same primary key or unique fields.
+   * The default values are only applied when creating it, the values being merged into the existing one otherwise,
+   * which keeps its primary key.
+   * The lookup and the write happen in a single transaction.
+   * @param values - The values of the instance
+   * @param options - The fields identifying the existing instance
+   * @returns - The created or updated instance
+   *
+   * @example
+   * ```ts
+   * // By primary key
+   * const user = await User.upsert({ id: 1, name: 'John' })
+   * // By a unique index
+   * await User.upsert({ email: 'john@doe.com', name: 'John' }, { conflictFields: ['email'] })
+   * ```
+   */
+  public static async upsert<T extends Model>(
+    this: { new (): T },
+    values: Partial<T>,
+    options: UpsertOptions<T> = {},
+    tx?: IDBTransaction,
+  ): Promise<T> {
+    const store = _objectStore(this.name, tx || 'readwrite')
+    const lookup = _conflictLookup(this.name, options.conflictFields)
+
+    return _abortOnError(store.transaction, !tx, async () => {
+      const existing = await _findConflict(this.name, store, lookup, values)
+      if (!existing)
+        return Model.create.call(this, values, store.transaction) as Promise<T>
+
+      const instance = _instantiate(this, existing)
+      // Found by a unique index, the values may hold another primary key
+      const primaryKey = Object.fromEntries(
+        getPrimaryKeys(this.name).map(field => [field, instance[field as keyof T]]),
+      )
+      Object.assign(instance, values, primaryKey)
+      await instance.save(store.transaction)
+      return instance
+    })
+  }
+
+  /**
+   * Get the first model instance matching some values, or create it if there's none.
+   * Both steps happen in a single transaction, so another write can't create it in between.
+   * @param lookup - The values to look for, the new instance gets them too
+   * @param defaults - The extra values of the new instance
+   * @returns - The instance and whether it was created
+   *
+   * @example
+   * ```ts
+   * const { instance: tag, created } = await Tag.getOrCreate({ name: 'news' }, { color: 'red' })
+   * ```
+   */
+  public static async getOrCreate<T extends Model>(
+    this: { new (): T },
+    lookup: Partial<T>,
+    defaults: Partial<T> = {},
+    tx?: IDBTransaction,
+  ): Promise<GetOrCreateResult<T>> {
+    const store = _objectStore(this.name, tx || 'readwrite')
+
+    return _abortOnError(store.transaction, !tx, async () => {
+      const existing = await new Query(this)
+        .filter(lookup as unknown as Filter<T>)
+        .first(store.transaction)
+      if (existing)
+        return { instance: existing, created: false }
+
+      const instance = await (Model.create.call(
+        this,
+        { ...defaults, ...lookup },
+        store.transaction,
+      ) as Promise<T>)
+      return { instance, created: true }
     })
   }
 
@@ -105,19 +328,18 @@ export abstract class Model implements Record<string, any> {
   ): Promise<T | null> {
     const store = _objectStore(this.name, tx)
     return new Promise((resolve, reject) => {
-      const request = store.get(Array.isArray(key) ? key : [key])
+      const request = store.get(
+        _toStoreKey(this.name, Array.isArray(key) ? key : [key]),
+      )
       request.onerror = (_) => {
         reject(request.error)
       }
       request.onsuccess = (_) => {
-        if (!request.result) {
+        if (!request.result)
           resolve(null)
-        }
-        else {
-          const instance = new this()
-          Object.assign(instance, request.result)
-          resolve(instance)
-        }
+
+        else
+          resolve(_instantiate(this, request.result))
       }
     })
   }
@@ -178,6 +400,54 @@ export abstract class Model implements Record<string, any> {
     })
   }
 
+  /**
+   * Iterate over all model instances, read in batches.
+   * @see {@link Query.iterate} for more information
+   *
+   * @param batchSize - The amount of instances read at once
+   * @returns - An async iterator over the instances
+   * @example
+   * ```ts
+   * for await (const user of User.iterate())
+   *   await sendEmail(user)
+   * ```
+   */
+  public static iterate<T extends Model>(
+    this: { new (): T },
+    batchSize?: number,
+  ): AsyncGenerator<T, void, undefined> {
+    return new Query(this).iterate(batchSize)
+  }
+
+  /**
+   * Compute some aggregates over all model instances.
+   * @see {@link Query.aggregate} for more information
+   *
+   * @param aggregates - The aggregates to compute, by name
+   * @returns - The results of the aggregates, by name
+   */
+  public static async aggregate<T extends Model, A extends Aggregates>(
+    this: { new (): T },
+    aggregates: A,
+    tx?: IDBTransaction,
+  ): Promise<AggregateResults<A>> {
+    return new Query(this).aggregate(aggregates, tx)
+  }
+
+  /**
+   * Start a query for this model grouped by some fields.
+   * @see {@link Query.groupBy} for more information
+   *
+   * @param fields - The fields to group by
+   * @returns - The grouped query
+   */
+  public static groupBy<T extends Model, K extends ModelFieldKey<T>>(
+    this: { new (): T },
+    ...fields: K[]
+  ): GroupedQuery<T, K> {
+    return new Query(this).groupBy(...fields)
+  }
+
   /**
    * Start a query for this model with a filter.
    * @see {@link Query.filter} for more information
@@ -187,7 +457,7 @@ export abstract class Model implements Record<string, any> {
    */
   public static filter<T extends Model>(
     this: { new (): T },
-    filters: Filter<T>,
+    filters: QueryFilter<T>,
   ): Query<T> {
     return new Query(this).filter(filters)
   }
@@ -196,14 +466,14 @@ export abstract class Model implements Record<string, any> {
    * Start a query for this model with an order.
    * @see {@link Query.orderBy} for more information
    *
-   * @param orderBy - The field to order by, prepend a `-` to reverse the order
+   * @param orderBy - The fields to order by, prepend a `-` to reverse the order of a field
    * @returns - The new query
    */
   public static orderBy<T extends Model>(
     this: { new (): T },
-    orderBy: OrderBy<T>,
+    ...orderBy: OrderBy<T>[]
   ): Query<T> {
-    return new Query(this).orderBy(orderBy)
+    return new Query(this).orderBy(...orderBy)
   }
 
   /**
@@ -217,11 +487,70 @@ export abstract class Model implements Record<string, any> {
   public static withIndex<T extends Model>(
     this: { new (): T },
     index: string,
-    query: BetweenFilter<unknown>,
+    query: FieldFilter<unknown>,
   ): Query<T> {
     return new Query(this).withIndex(index, query)
   }
 
+  /**
+   * Start a query for this model loading some relations.
+   * @see {@link Query.include} for more information
+   *
+   * @param relations - The names of the relations to load
+   * @returns - The new query
+   */
+  public static include<T extends Model>(
+    this: { new (): T },
+    ...relations: string[]
+  ): Query<T> {
+    return new Query(this).include(...relations)
+  }
+
+  /**
+   * Get the instance referenced by a {@link ForeignKey} of this instance.
+   * @param target - The referenced model
+   * @param foreignKey - The foreign key to use, only needed if several reference the model
+   * @returns - The referenced instance, or null if there's none
+   *
+   * @example
+   * ```ts
+   * const author = await post.belongsTo(User)
+   * ```
+   */
+  public async belongsTo<R extends Model>(
+    target: { new (): R },
+    foreignKey?: string,
+    tx?: IDBTransaction,
+  ): Promise<R | null> {
+    const field = _findForeignKey(this.constructor.name, target.name, foreignKey)
+    const value = this[field as keyof this] as IDBValidKey | undefined | null
+    if (value === undefined || value === null)
+      return null
+
+    return Model.get.call(target, value, tx) as Promise<R | null>
+  }
+
+  /**
+   * Start a query for the instances referencing this one with a {@link ForeignKey}.
+   * @param target - The referencing model
+   * @param foreignKey - The foreign key to use, only needed if several reference this model
+   * @returns - The new query
+   *
+   * @example
+   * ```ts
+   * const posts = await user.hasMany(Post).orderBy('date').all()
+   * ```
+   */
+  public hasMany<R extends Model>(
+    target: { new (): R },
+    foreignKey?: string,
+  ): Query<R> {
+    const field = _findForeignKey(target.name, this.constructor.name, foreignKey)
+    const key = this[_referencedKey(this.constructor.name) as keyof this]
+
+    return new Query(target).filter({ [field]: key } as unknown as Filter<R>)
+  }
+
   /**
    * Get the primary keys of this instance.
    */
@@ -234,37 +563,228 @@ export abstract class Model implements Record<string, any> {
 
   /**
    * Delete this instance from the database.
+   * The `onDelete` actions of the relations referencing it are applied, see {@link ForeignKey}.
    */
   public async delete(tx?: IDBTransaction): Promise<void> {
-    const store = _objectStore(this.constructor.name, tx || 'readwrite')
-    const request = store.delete(this.keys)
-    return new Promise((resolve, reject) => {
-      request.onerror = (_) => {
-        reject(request.error)
-      }
-      request.onsuccess = (_) => {
-        resolve()
-      }
+    const modelName = this.constructor.name
+    const store = _objectStore(
+      modelName,
+      tx || _transaction(modelName, _deleteTables(modelName), 'readwrite'),
+    )
+
+    return _withHooks(this, 'Delete', store.transaction, !tx, async () => {
+      await _applyOnDelete(this, store.transaction)
+
+      const key = _toStoreKey(modelName, this.keys)
+      const request = store.delete(key)
+      return new Promise((resolve, reject) => {
+        request.onerror = (_) => {
+          reject(request.error)
+        }
+        request.onsuccess = (_) => {
+          _recordChange(store.transaction, { table: store.name, type: 'delete', keys: [key] })
+          resolve()
+        }
+      })
     })
   }
 
   /**
    * Save this instance's changes to the database.
+   * With `onlyChanged`, the row is read again in the transaction and only the changed fields are written,
+   * keeping the changes written meanwhile to the other ones, the instance being refreshed with them.
+   * @param options - Whether to only write the changed fields
+   *
+   * @example
+   * ```ts
+   * user.name = 'Jane'
+   * await user.save({ onlyChanged: true })
+   * ```
    */
-  public async save(tx?: IDBTransaction): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const store = _objectStore(this.constructor.name, tx || 'readwrite')
-      const request = store.put(this)
+  public async save(tx?: IDBTransaction): Promise<void>
+  public async save(options: SaveOptions, tx?: IDBTransaction): Promise<void>
+  public async save(
+    optionsOrTx?: SaveOptions | IDBTransaction,
+    tx?: IDBTransaction,
+  ): Promise<void> {
+    let options: SaveOptions = {}
+    if (optionsOrTx instanceof IDBTransaction)
+      tx = optionsOrTx
+    else if (optionsOrTx)
+      options = optionsOrTx
+    const modelName = this.constructor.name
+    const store = _objectStore(modelName, tx || 'readwrite')
 
-      request.onerror = (_) => {
-        reject(request.error)
-      }
-      request.onsuccess = (_) => {
-        resolve()
-      }
+    const versionField = _getVersionField(modelName)
+
+    return _withHooks(this, 'Save', store.transaction, !tx, async () => {
+      _touchTimestamps(modelName, this, false)
+      _assertValid(modelName, this)
+      const values = { ..._toDB(modelName, this) } as Record<string, unknown>
+      const stored = (options.onlyChanged || versionField)
+        ? await _readRow(store, _toStoreKey(modelName, this.keys))
+        : undefined
+      if (versionField)
+        _assertVersion(modelName, stored, values[versionField])
+
+      const record = (options.onlyChanged && stored)
+        ? _mergeChanges(this, values, stored)
+        : values
+      _bumpVersion(modelName, record, stored)
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(record)
+
+        request.onerror = (_) => {
+          reject(request.error)
+        }
+        request.onsuccess = (_) => {
+          _recordChange(store.transaction, { table: store.name, type: 'update', keys: [request.result] })
+          resolve()
+        }
+      })
+      if (options.onlyChanged)
+        Object.assign(this, _fromDB(modelName, record))
+      else if (versionField)
+        this[versionField as keyof this] = record[versionField] as this[keyof this]
+      _snapshot(this)
     })
   }
 
+  /**
+   * Whether this instance was changed since it was read or written, always true for a new one.
+   */
+  public get isDirty(): boolean {
+    return _changedFields(this).length > 0
+  }
+
+  /**
+   * Get the fields changed since this instance was read or written.
+   * @returns - The names of the changed fields, every field with a value for a new instance
+   *
+   * @example
+   * ```ts
+   * public beforeSave() {
+   *   if (this.changedFields().includes('email'))
+   *     this.verified = false
+   * }
+   * ```
+   */
+  public changedFields(): string[] {
+    return _changedFields(this)
+  }
+
+  /**
+   * Get the value a field had when this instance was read or written.
+   * @param field - The field
+   * @returns - The previous value, undefined for a new instance
+   */
+  public previous<K extends keyof this>(field: K & string): this[K] | undefined {
+    return _previousValue(this, field) as this[K] | undefined
+  }
+
+  /**
+   * Hook called before this instance is created, after the default values are applied.
+   * Throwing an error aborts the creation.
+   * @see {@link Hook} for more information about hooks
+   * @param tx - The transaction of the write
+   */
+  public beforeCreate(tx: IDBTransaction): void | Promise<void> {}
+
+  /**
+   * Hook called after this instance is created.
+   * Throwing an error aborts the creation.
+   * @see {@link Hook} for more information about hooks
+   * @param tx - The transaction of the write
+   */
+  public afterCreate(tx: IDBTransaction): void | Promise<void> {}
+
+  /**
+   * Hook called before this instance is saved.
+   * Throwing an error aborts the save.
+   * @see {@link Hook} for more information about hooks
+   * @param tx - The transaction of the write
+   */
+  public beforeSave(tx: IDBTransaction): void | Promise<void> {}
+
+  /**
+   * Hook called after this instance is saved.
+   * Throwing an error aborts the save.
+   * @see {@link Hook} for more information about hooks
+   * @param tx - The transaction of the write
+   */
+  public afterSave(tx: IDBTransaction): void | Promise<void> {}
+
+  /**
+   * Hook called before this instance is deleted.
+   * Throwing an error aborts the deletion.
+   * @see {@link Hook} for more information about hooks
+   * @param tx - The transaction of the write
+   */
+  public beforeDelete(tx: IDBTransaction): void | Promise<void> {}
+
+  /**
+   * Hook called after this instance is deleted.
+   * Throwing an error aborts the deletion.
+   * @see {@link Hook} for more information about hooks
+   * @param tx - The transaction of the write
+   */
+  public afterDelete(tx: IDBTransaction): void | Promise<void> {}
+
+  /**
+   * Hook called before a query updates rows of this model, the updates can be modified.
+   * Throwing an error aborts the update.
+   * @see {@link Hook} for more information about hooks
+   * @param query - The query doing the update, models can narrow it to their own `Query`
+   * @param updates - The updates to apply, models can narrow them to their own `Partial` values
+   * @param tx - The transaction of the write
+   */
+  public static beforeBulkUpdate(
+    query: object,
+    updates: Record<string, unknown>,
+    tx: IDBTransaction,
+  ): void | Promise<void> {}
+
+  /**
+   * Hook called after a query updated rows of this model.
+   * Throwing an error aborts the update.
+   * @see {@link Hook} for more information about hooks
+   * @param query - The query doing the update, models can narrow it to their own `Query`
+   * @param keys - The primary keys of the updated rows
+   * @param tx - The transaction of the write
+   */
+  public static afterBulkUpdate(
+    query: object,
+    keys: IDBValidKey[],
+    tx: IDBTransaction,
+  ): void | Promise<void> {}
+
+  /**
+   * Hook called before a query deletes rows of this model.
+   * Throwing an error aborts the deletion.
+   * @see {@link Hook} for more information about hooks
+   * @param query - The query doing the deletion, models can narrow it to their own `Query`
+   * @param tx - The transaction of the write
+   */
+  public static beforeBulkDelete(
+    query: object,
+    tx: IDBTransaction,
+  ): void | Promise<void> {}
+
+  /**
+   * Hook called after a query deleted rows of this model.
+   * Throwing an error aborts the deletion.
+   * @see {@link Hook} for more information about hooks
+   * @param query - The query doing the deletion, models can narrow it to their own `Query`
+   * @param keys - The primary keys of the deleted rows
+   * @param tx - The transaction of the write
+   */
+  public static afterBulkDelete(
+    query: object,
+    keys: IDBValidKey[],
+    tx: IDBTransaction,
+  ): void | Promise<void> {}
+
   /**
    * Update this instance's fields. This will not save the changes to the database.
    * @param values - The values to update
@@ -279,6 +799,7 @@ export abstract class Model implements Record<string, any> {
   public static clear(tx?: IDBTransaction): void {
     const store = _objectStore(this.name, tx || 'readwrite')
     store.clear()
+    _recordChange(store.transaction, { table: store.name, type: 'clear', keys: [] })
   }
 
   /**
@@ -294,12 +815,368 @@ export abstract class Model implements Record<string, any> {
         reject(request.error)
       }
       request.onsuccess = (_) => {
-        resolve(request.result)
+        resolve(
+          request.result.map(key => _fromStoreKey(this.name, key)),
+        )
+      }
+    })
+  }
+
+  /**
+   * Listen to the changes of the table committed by other tabs.
+   * They are only received when the connection shares its changes, see the `broadcast` option of {@link init}.
+   * @param listener - Called with each change, its keys being the primary keys of the model like {@link keys}
+   * @returns - A function to stop listening
+   *
+   * @example
+   * ```ts
+   * await init('my-db', 1, {}, { broadcast: true })
+   * const stop = User.onRemoteChange(({ type, keys }) => {
+   *   console.log(`Users ${keys.join(', ')} had a ${type} in another tab`)
+   * })
+   * ```
+   */
+  public static onRemoteChange(listener: (change: TableChange) => void): () => void {
+    const modelName = this.name
+    const tableName = TablesMetadata[modelName]?.tableName || modelName
+
+    return _onChanges((database, changes, remote) => {
+      if (!remote)
+        return
+      try {
+        if (_getDatabase(modelName).session !== database)
+          return
+      }
+      catch {
+        // The model's database isn't connected anymore
+        return
+      }
+      for (const change of changes) {
+        if (change.table === tableName) {
+          listener({
+            ...change,
+            keys: change.keys.map(key => _fromStoreKey(modelName, key)),
+          })
+        }
       }
     })
   }
 }
 
+/**
+ * Utility function to run a write between its hooks.
+ * If the transaction was created for this write, it is aborted on error.
+ * @param instance - The model instance
+ * @param event - The event, without its `before`/`after` prefix
+ * @param tx - The transaction of the write
+ * @param ownsTx - Whether the transaction was created for this write
+ * @param write - The write itself
+ * @internal
+ */
+async function _withHooks(
+  instance: Model,
+  event: 'Create' | 'Save' | 'Delete',
+  tx: IDBTransaction,
+  ownsTx: boolean,
+  write: () => Promise<void>,
+): Promise<void> {
+  return _abortOnError(tx, ownsTx, async () => {
+    await _runHooks(instance, `before${event}`, tx)
+    await write()
+    await _runHooks(instance, `after${event}`, tx)
+  })
+}
+
+/**
+ * Utility function to run some writes, aborting the transaction on error if it was created for them.
+ * @param tx - The transaction of the writes
+ * @param ownsTx - Whether the transaction was created for these writes
+ * @param write - The writes
+ * @returns - The result of the writes
+ * @internal
+ */
+async function _abortOnError<R>(
+  tx: IDBTransaction,
+  ownsTx: boolean,
+  write: () => Promise<R>,
+): Promise<R> {
+  try {
+    return await write()
+  }
+  catch (e) {
+    if (ownsTx) {
+      try {
+        tx.abort()
+      }
+      catch {
+        // The transaction is already finished
+      }
+    }
+    throw e
+  }
+}
+
+/**
+ * Utility function to resolve how {@link Model.upsert} finds the existing row.
+ * @param modelName - The class name of the model
+ * @param conflictFields - The fields identifying the row, the primary key by default
+ * @returns - The fields, in the order of the key, and the unique index to read, null for the primary key
+ * @internal
+ */
+function _conflictLookup(
+  modelName: string,
+  conflictFields?: string[],
+): { fields: string[]; index: string | null } {
+  const primaryKeys = getPrimaryKeys(modelName)
+  const sameFields = (fields: string[]) => fields.length === conflictFields?.length
+    && fields.every(field => conflictFields.includes(field))
+
+  if (!conflictFields || sameFields(primaryKeys))
+    return { fields: primaryKeys, index: null }
+
+  for (const [name, index] of Object.entries(_getIndexes(modelName))) {
+    if (index.unique && !index.multiEntry && sameFields(index.fields))
+      return { fields: index.fields, index: name }
+  }
+  throw new ModelError(
+    `No unique index on ${conflictFields.join(', ')} in ${modelName}`,
+  )
+}
+
+/**
+ * Utility function to read the row conflicting with some values, see {@link Model.upsert}.
+ * @param modelName - The class name of the model
+ * @param store - The object store of the model
+ * @param lookup - The fields identifying the row, and the index to read
+ * @param values - The values to write
+ * @returns - The stored row, or null if there's none
+ * @internal
+ */
+async function _findConflict(
+  modelName: string,
+  store: IDBObjectStore,
+  lookup: { fields: string[]; index: string | null },
+  values: object,
+): Promise<object | null> {
+  const fieldValues = values as Record<string, IDBValidKey | undefined | null>
+  if (lookup.fields.some(field => fieldValues[field] === undefined || fieldValues[field] === null))
+    return null
+
+  let request: IDBRequest
+  if (lookup.index === null) {
+    const keys = lookup.fields.map(field => fieldValues[field] as IDBValidKey)
+    request = store.get(_toStoreKey(modelName, keys))
+  }
+  else {
+    // The index holds the stored values
+    const record = _toDB(modelName, values) as Record<string, IDBValidKey>
+    const key = lookup.fields.map(field => record[field])
+    request = store.index(lookup.index).get(key.length === 1 ? key[0] : key)
+  }
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (_) => {
+      reject(request.error)
+    }
+    request.onsuccess = (_) => {
+      resolve((request.result as object | undefined) ?? null)
+    }
+  })
+}
+
+/**
+ * Utility function to apply the default values of a model's fields to a new instance.
+ * @param modelName - The class name of the model
+ * @param instance - The new instance
+ * @internal
+ */
+function _applyDefaults(modelName: string, instance: Model): void {
+  const fields = TablesMetadata[modelName]?.fields || {}
+  const values = instance as unknown as Record<string, unknown>
+
+  for (const [field, fieldOpts] of Object.entries(fields)) {
+    if (
+      values[field] === undefined
+      && fieldOpts.default !== undefined
+      && fieldOpts.default !== null
+    ) {
+      // Check if default value is a generator
+      if (fieldOpts.default instanceof Function)
+        values[field] = fieldOpts.default()
+      else values[field] = fieldOpts.default
+    }
+  }
+
+  const versionField = _getVersionField(modelName)
+  if (versionField && values[versionField] === undefined)
+    values[versionField] = 1
+  _touchTimestamps(modelName, values, true)
+}
+
+/**
+ * Utility function to check a new instance and convert it to the row to add.
+ * @param modelName - The class name of the model
+ * @param instance - The new instance
+ * @returns - The row to add
+ * @internal
+ */
+function _createRecord(modelName: string, instance: Model): Record<string, unknown> {
+  const fields = TablesMetadata[modelName]?.fields || {}
+  const autoIncrementKey = _getAutoIncrementKey(modelName)
+
+  for (const [field, fieldOpts] of Object.entries(fields)) {
+    if (
+      instance[field as keyof Model] === undefined
+      && !fieldOpts.nullable
+      && field !== autoIncrementKey
+    )
+      throw new ModelError(`Field ${field} is not nullable`)
+  }
+  _assertValid(modelName, instance)
+
+  const record = { ..._toDB(modelName, instance) } as Record<string, unknown>
+  // The key is generated by the database only if it's missing
+  if (autoIncrementKey && record[autoIncrementKey] === undefined)
+    delete record[autoIncrementKey]
+  return record
+}
+
+/**
+ * Utility function to write many instances in a single transaction, between their hooks.
+ * All the requests are issued at once, once the `before` hooks of every instance ran.
+ * Without `continueOnError`, the first error is thrown and the transaction aborted if it was created for the write.
+ * @param instances - The instances to write
+ * @param event - The event, without its `before`/`after` prefix
+ * @param store - The object store to write to
+ * @param ownsTx - Whether the transaction was created for this write
+ * @param options - The bulk options
+ * @param steps - How to write an instance: what to do before, the request, and what to do once written
+ * @returns - The written instances and the failed items
+ * @internal
+ */
+async function _bulkWrite<T extends Model>(
+  instances: T[],
+  event: 'Create' | 'Save' | 'Delete',
+  store: IDBObjectStore,
+  ownsTx: boolean,
+  options: BulkOptions,
+  steps: {
+    prepare?: (instance: T) => Promise<void>
+    request: (instance: T) => IDBRequest
+    written?: (instance: T, key: IDBValidKey) => void
+  },
+): Promise<BulkResult<T>> {
+  const tx = store.transaction
+  const results: (T | null)[] = [...instances]
+  const failed: BulkFailure[] = []
+  const fail = (index: number, error: unknown) => {
+    if (!options.continueOnError)
+      throw error
+    results[index] = null
+    failed.push({ index, error })
+  }
+
+  await _abortOnError(tx, ownsTx, async () => {
+    const requests: (IDBRequest | null)[] = []
+    for (const [index, instance] of instances.entries()) {
+      try {
+        await _runHooks(instance, `before${event}`, tx)
+        await steps.prepare?.(instance)
+        requests.push(steps.request(instance))
+      }
+      catch (e) {
+        fail(index, e)
+        requests.push(null)
+      }
+    }
+
+    const keys: IDBValidKey[] = []
+    await Promise.all(requests.map((request, index) => {
+      if (!request)
+        return undefined
+      return new Promise<void>((resolve, reject) => {
+        request.onerror = (ev) => {
+          if (!options.continueOnError) {
+            reject(request.error)
+            return
+          }
+          // Keep the transaction going
+          ev.preventDefault()
+          fail(index, request.error)
+          resolve()
+        }
+        request.onsuccess = (_) => {
+          const key = event === 'Delete'
+            ? _toStoreKey(instances[index].constructor.name, instances[index].keys)
+            : request.result as IDBValidKey
+          keys.push(key)
+          steps.written?.(instances[index], key)
+          if (event !== 'Delete')
+            _snapshot(instances[index])
+          resolve()
+        }
+      })
+    }))
+    if (keys.length) {
+      const type = event === 'Create' ? 'create' : event === 'Save' ? 'update' : 'delete'
+      _recordChange(tx, { table: store.name, type, keys })
+    }
+
+    for (const [index, instance] of instances.entries()) {
+      if (results[index])
+        await _runHooks(instance, `after${event}`, tx)
+    }
+  })
+
+  failed.sort((a, b) => a.index - b.index)
+  return { results, failed }
+}
+
+/**
+ * Utility function to read a stored row.
+ * @param store - The object store
+ * @param key - The key of the row
+ * @returns - The row, undefined if there's none
+ * @internal
+ */
+async function _readRow(
+  store: IDBObjectStore,
+  key: IDBValidKey,
+): Promise<Record<string, unknown> | undefined> {
+  const request = store.get(key)
+  return new Promise((resolve, reject) => {
+    request.onerror = (_) => {
+      reject(request.error)
+    }
+    request.onsuccess = (_) => {
+      resolve(request.result as Record<string, unknown> | undefined)
+    }
+  })
+}
+
+/**
+ * Utility function to apply the changed fields of an instance to its stored row.
+ * @param instance - The model instance
+ * @param values - The values of the instance, as stored
+ * @param stored - The stored row, read again in the transaction
+ * @returns - The row to write
+ * @internal
+ */
+function _mergeChanges(
+  instance: Model,
+  values: Record<string, unknown>,
+  stored: Record<string, unknown>,
+): Record<string, unknown> {
+  const record = { ...stored }
+  for (const field of _changedFields(instance)) {
+    if (values[field] === undefined)
+      delete record[field]
+    else
+      record[field] = values[field]
+  }
+  return record
+}
+
 export abstract class LenientModel extends Model {
   /** Allows setting extra elements in a model, since this is allowed by IDB */
   [key: string]: unknown;
@@ -0,0 +1,59 @@
+import type { ChangeListener, TableChange } from './types'
+
+/** The changes written by each transaction, until it's over */
+const pendingChanges = new WeakMap<IDBTransaction, TableChange[]>()
+/** The listeners of the committed changes */
+const changeListeners = new Set<ChangeListener>()
+
+/**
+ * Records a write to a table, its listeners are notified once the transaction commits.
+ * The changes of an aborted transaction are dropped.
+ * @param tx - The transaction of the write
+ * @param change - The change written
+ * @internal
+ */
+export function _recordChange(tx: IDBTransaction, change: TableChange): void {
+  let changes = pendingChanges.get(tx)
+  if (!changes) {
+    const recorded: TableChange[] = []
+    pendingChanges.set(tx, recorded)
+    tx.addEventListener('complete', () => {
+      pendingChanges.delete(tx)
+      _notifyChanges(tx.db, recorded)
+    })
+    tx.addEventListener('abort', () => {
+      pendingChanges.delete(tx)
+    })
+    changes = recorded
+  }
+  changes.push(change)
+}
+
+/**
+ * Notifies the listeners of some committed changes.
+ * @param database - The connection the changes were written through
+ * @param changes - The changes, in the order they were written
+ * @param remote - Whether the changes were broadcast by another tab
+ * @internal
+ */
+export function _notifyChanges(
+  database: IDBDatabase,
+  changes: TableChange[],
+  remote = false,
+): void {
+  for (const listener of [...changeListeners])
+    listener(database, changes, remote)
+}
+
+/**
+ * Listens to the changes committed by each transaction.
+ * @param listener - Called with the connection and the changes of each committed transaction writing to a table
+ * @returns - A function removing the listener
+ * @internal
+ */
+export function _onChanges(listener: ChangeListener): () => void {
+  changeListeners.add(listener)
+  return () => {
+    changeListeners.delete(listener)
+  }
+}
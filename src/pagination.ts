@@ -0,0 +1,187 @@
+import type { Model } from './models'
+import type { QueryPlan } from './types'
+import { WormError } from './errors'
+
+/** The position of a row in the results of a query, see {@link Query.after} */
+export type CursorPosition = {
+  /** What orders the results: the index read, or the fields sorted in memory */
+  order: string
+  /** The index key of the row, or the values of the fields sorted in memory */
+  key: IDBValidKey
+  primaryKey: IDBValidKey
+}
+
+/**
+ * Describes what orders the results of a plan, a position being only valid for the same order.
+ * @param plan - The plan of the query
+ * @returns - The order of the plan
+ * @internal
+ */
+export function _planOrder<T extends Model>(plan: QueryPlan<T>): string {
+  if (plan.sort)
+    return `sort:${plan.sort.join(',')}`
+  return plan.index === null ? 'primaryKey' : `index:${plan.index}`
+}
+
+/**
+ * Computes the key of a row in an index or object store.
+ * @param keyPath - The key path of the index or object store
+ * @param row - The stored row
+ * @returns - The key of the row
+ * @internal
+ */
+export function _keyOf(keyPath: string | string[], row: unknown): IDBValidKey {
+  const record = row as Record<string, IDBValidKey>
+  return Array.isArray(keyPath) ? keyPath.map(field => record[field]) : record[keyPath]
+}
+
+/**
+ * Computes the position of a row read by a plan.
+ * @param plan - The plan of the query
+ * @param keyPath - The key path of the index or object store read by the plan
+ * @param row - The stored row
+ * @param primaryKey - The primary key of the row
+ * @returns - The position of the row
+ * @internal
+ */
+export function _rowPosition<T extends Model>(
+  plan: QueryPlan<T>,
+  keyPath: string | string[],
+  row: unknown,
+  primaryKey: IDBValidKey,
+): CursorPosition {
+  const record = row as Record<string, IDBValidKey>
+  const key = plan.sort
+    ? plan.sort.map(field => record[field.startsWith('-') ? field.slice(1) : field])
+    : _keyOf(keyPath, row)
+
+  return { order: _planOrder(plan), key, primaryKey }
+}
+
+/**
+ * Converts a key to a JSON compatible value, keeping the types IDB compares.
+ * The values sorted in memory can also be missing, null or booleans.
+ * @param key - The key
+ * @returns - The encoded key
+ * @throws {WormError} If the value can't be encoded
+ */
+function _encodeKey(key: unknown): unknown {
+  if (Array.isArray(key))
+    return key.map(_encodeKey)
+  if (typeof key === 'string')
+    return key
+  if (typeof key === 'number')
+    return { n: String(key) }
+  if (key instanceof Date)
+    return { d: key.getTime() }
+  if (key === undefined)
+    return { u: 1 }
+  if (key === null || typeof key === 'boolean')
+    return { v: key }
+  if (!(key instanceof ArrayBuffer) && !ArrayBuffer.isView(key))
+    throw new WormError('The values of a pagination cursor have to be keys, null or booleans')
+
+  const bytes = ArrayBuffer.isView(key)
+    ? new Uint8Array(key.buffer, key.byteOffset, key.byteLength)
+    : new Uint8Array(key)
+  return { b: [...bytes] }
+}
+
+/**
+ * Converts an encoded key back to the key.
+ * @param encoded - The encoded key
+ * @returns - The key
+ */
+function _decodeKey(encoded: unknown): IDBValidKey {
+  if (Array.isArray(encoded))
+    return encoded.map(_decodeKey)
+  if (typeof encoded === 'string')
+    return encoded
+  if (typeof encoded !== 'object' || encoded === null)
+    throw new WormError('Invalid pagination cursor')
+
+  const tagged = encoded as { n?: string; d?: number; b?: number[]; u?: number; v?: unknown }
+  if (tagged.n !== undefined)
+    return Number(tagged.n)
+  if (tagged.d !== undefined)
+    return new Date(tagged.d)
+  if (tagged.b !== undefined)
+    return new Uint8Array(tagged.b).buffer
+  // Only found in the values sorted in memory, compared as such
+  if (tagged.u !== undefined)
+    return undefined as unknown as IDBValidKey
+  if (tagged.v === null || typeof tagged.v === 'boolean')
+    return tagged.v as unknown as IDBValidKey
+  throw new WormError('Invalid pagination cursor')
+}
+
+/**
+ * Serializes the position of a row to an opaque string.
+ * @param position - The position
+ * @returns - The pagination cursor
+ * @internal
+ */
+export function _encodeCursor(position: CursorPosition): string {
+  const json = JSON.stringify({
+    o: position.order,
+    k: _encodeKey(position.key),
+    p: _encodeKey(position.primaryKey),
+  })
+  const bytes = new TextEncoder().encode(json)
+  return btoa(String.fromCharCode(...bytes))
+}
+
+/**
+ * Parses a pagination cursor.
+ * @param cursor - The pagination cursor
+ * @returns - The position of the row
+ * @internal
+ */
+export function _decodeCursor(cursor: string): CursorPosition {
+  let parsed: { o: unknown; k: unknown; p: unknown }
+  try {
+    const bytes = Uint8Array.from(atob(cursor), char => char.charCodeAt(0))
+    parsed = JSON.parse(new TextDecoder().decode(bytes)) as typeof parsed
+  }
+  catch {
+    throw new WormError('Invalid pagination cursor')
+  }
+  if (typeof parsed?.o !== 'string')
+    throw new WormError('Invalid pagination cursor')
+
+  return { order: parsed.o, key: _decodeKey(parsed.k), primaryKey: _decodeKey(parsed.p) }
+}
+
+/**
+ * Restricts a key range to the keys from a position onwards, in the direction of the cursor.
+ * @param range - The key range, undefined for all the keys
+ * @param key - The key of the position, included
+ * @param direction - The direction of the cursor
+ * @returns - The restricted key range, or null if it's entirely before the position
+ * @internal
+ */
+export function _rangeFrom(
+  range: IDBKeyRange | undefined,
+  key: IDBValidKey,
+  direction: IDBCursorDirection,
+): IDBKeyRange | null {
+  const forward = direction === 'next' || direction === 'nextunique'
+  if (!range)
+    return forward ? IDBKeyRange.lowerBound(key) : IDBKeyRange.upperBound(key)
+
+  if (forward) {
+    const end = indexedDB.cmp(range.upper, key)
+    if (end < 0 || (end === 0 && range.upperOpen))
+      return null
+    if (indexedDB.cmp(range.lower, key) > 0)
+      return range
+    return IDBKeyRange.bound(key, range.upper, false, range.upperOpen)
+  }
+
+  const end = indexedDB.cmp(range.lower, key)
+  if (end > 0 || (end === 0 && range.lowerOpen))
+    return null
+  if (indexedDB.cmp(range.upper, key) < 0)
+    return range
+  return IDBKeyRange.bound(range.lower, key, range.lowerOpen, false)
+}
@@ -0,0 +1,460 @@
+import type { Model } from './models'
+import type { OrderBy, QueryFilter, QueryPlan } from './types'
+import {
+  TablesMetadata,
+  _getAutoIncrementKey,
+  _getIndexes,
+  getPrimaryKeys,
+} from './metadata'
+import { FieldFilter, _conditionKeyRanges, _isValidKey } from './filters'
+import { BetweenFilter } from './query'
+
+/** An index the rows of a table can be read from */
+type IndexCandidate = {
+  /** The name of the index, null for the primary key */
+  index: string | null
+  fields: string[]
+  /** Whether the keys are arrays, eg. for compound indexes */
+  arrayKeys: boolean
+  unique: boolean
+}
+
+/** A condition on a field, with the position of its filter in the query */
+type FieldConditionEntry = {
+  filter: number
+  condition: unknown
+}
+
+/** A plan of a query, with a score estimating how selective it is */
+type ScoredPlan<T extends Model> = QueryPlan<T> & { score: number }
+
+/** A field to order the rows by */
+type OrderKey = {
+  field: string
+  descending: boolean
+}
+
+/**
+ * Lists the indexes a table can be read from: its primary key and its indexes.
+ * MultiEntry indexes are left out, given that their keys aren't the values of the field.
+ * @param modelName - The class name of the model
+ * @returns - The candidate indexes, the primary key first
+ */
+function _getCandidates(modelName: string): IndexCandidate[] {
+  if (!(modelName in TablesMetadata))
+    return []
+
+  const candidates: IndexCandidate[] = []
+  const primaryKeys = getPrimaryKeys(modelName)
+  if (primaryKeys.length) {
+    candidates.push({
+      index: null,
+      fields: primaryKeys,
+      arrayKeys: !_getAutoIncrementKey(modelName),
+      unique: true,
+    })
+  }
+
+  const indexes = _getIndexes(modelName)
+  for (const name in indexes) {
+    const { fields, unique, multiEntry } = indexes[name]
+    if (!multiEntry)
+      candidates.push({ index: name, fields, arrayKeys: fields.length > 1, unique })
+  }
+  return candidates
+}
+
+/**
+ * Groups the conditions of the fields, of all the filters that aren't combined.
+ * @param filters - The filters of the query
+ * @returns - The conditions of each field
+ */
+function _getFieldConditions<T extends Model>(
+  filters: QueryFilter<T>[],
+): Map<string, FieldConditionEntry[]> {
+  const conditions = new Map<string, FieldConditionEntry[]>()
+  filters.forEach((filter, index) => {
+    // Combined filters may involve several fields
+    if (filter instanceof FieldFilter)
+      return
+
+    for (const [key, condition] of Object.entries(filter) as [string, unknown][]) {
+      const entries = conditions.get(key) || []
+      entries.push({ filter: index, condition })
+      conditions.set(key, entries)
+    }
+  })
+  return conditions
+}
+
+/**
+ * Checks if a condition is a simple equality, which can be a prefix of a compound index.
+ * @param condition - The condition of a field
+ * @returns - Whether the condition is an equality on a value that can be a key
+ */
+function _isEquality(condition: unknown): boolean {
+  return typeof condition !== 'function'
+    && !(condition instanceof FieldFilter)
+    && _isValidKey(condition)
+}
+
+/**
+ * Plans the read of an index: its leading fields have to match equalities,
+ * and the next one can match any condition able to use an index, eg. a {@link BetweenFilter}.
+ * @param candidate - The index
+ * @param conditions - The conditions of each field
+ * @returns - The key ranges, the conditions they guarantee and a score, or null if the index can't be used
+ */
+function _planCandidate(
+  candidate: IndexCandidate,
+  conditions: Map<string, FieldConditionEntry[]>,
+): { keyRanges: IDBKeyRange[]; covered: [number, string][]; equalities: number; score: number } | null {
+  const { fields, arrayKeys } = candidate
+  const toKey = (parts: unknown[]) => (arrayKeys ? parts : parts[0])
+  const covered: [number, string][] = []
+  const prefix: unknown[] = []
+
+  for (const field of fields) {
+    const equality = conditions.get(field)?.find(entry => _isEquality(entry.condition))
+    if (!equality)
+      break
+    prefix.push(equality.condition)
+    covered.push([equality.filter, field])
+  }
+
+  if (prefix.length === fields.length) {
+    return {
+      keyRanges: [IDBKeyRange.only(toKey(prefix))],
+      covered,
+      equalities: prefix.length,
+      score: candidate.unique ? Infinity : 2 * prefix.length,
+    }
+  }
+
+  // The remaining fields after the matched ones
+  const field = fields[prefix.length]
+  const padding = fields.length - prefix.length - 1
+  const minKeys = Array<unknown>(padding).fill(BetweenFilter.minKey)
+  const maxKeys = Array<unknown>(padding).fill(BetweenFilter.maxKey)
+
+  for (const entry of conditions.get(field) || []) {
+    const ranges = _conditionKeyRanges(entry.condition)
+    if (!ranges)
+      continue
+
+    // The open bounds can't be kept if other fields follow
+    const exact = !padding || ranges.every(range => !range.lowerOpen && !range.upperOpen)
+    if (exact)
+      covered.push([entry.filter, field])
+    return {
+      keyRanges: ranges.map(range =>
+        IDBKeyRange.bound(
+          toKey([...prefix, range.lower, ...minKeys]),
+          toKey([...prefix, range.upper, ...maxKeys]),
+          !padding && range.lowerOpen,
+          !padding && range.upperOpen,
+        ),
+      ),
+      covered,
+      equalities: prefix.length,
+      score: 2 * prefix.length + 1,
+    }
+  }
+
+  if (!prefix.length)
+    return null
+  return {
+    keyRanges: [
+      IDBKeyRange.bound(
+        [...prefix, BetweenFilter.minKey, ...minKeys],
+        [...prefix, BetweenFilter.maxKey, ...maxKeys],
+      ),
+    ],
+    covered,
+    equalities: prefix.length,
+    score: 2 * prefix.length,
+  }
+}
+
+/**
+ * Removes the conditions guaranteed by the key ranges from the filters.
+ * @param filters - The filters of the query
+ * @param covered - The guaranteed conditions, as the position of their filter and their field
+ * @returns - The filters left to check on each row
+ */
+function _residualFilters<T extends Model>(
+  filters: QueryFilter<T>[],
+  covered: [number, string][],
+): QueryFilter<T>[] {
+  const residual: QueryFilter<T>[] = []
+  filters.forEach((filter, index) => {
+    const coveredFields = covered.filter(([i]) => i === index).map(([, field]) => field)
+    if (!coveredFields.length || filter instanceof FieldFilter) {
+      residual.push(filter)
+      return
+    }
+
+    const rest = Object.fromEntries(
+      Object.entries(filter).filter(([key]) => !coveredFields.includes(key)),
+    )
+    if (Object.keys(rest).length)
+      residual.push(rest as QueryFilter<T>)
+  })
+  return residual
+}
+
+/**
+ * Sorts key ranges by their lower bound, in the direction of the query.
+ * @param ranges - The key ranges
+ * @param direction - The direction of the cursors
+ * @returns - The sorted key ranges
+ * @internal
+ */
+export function _sortRanges(
+  ranges: IDBKeyRange[],
+  direction: IDBCursorDirection,
+): IDBKeyRange[] {
+  const sorted = [...ranges].sort((a, b) => indexedDB.cmp(a.lower, b.lower))
+  return direction === 'prev' ? sorted.reverse() : sorted
+}
+
+/**
+ * Parses the ordering of a query, a `-` prefix meaning a descending field.
+ * @param order - The ordering of the query
+ * @param reverse - Whether the query is reversed, flipping all the fields
+ * @returns - The fields to order by
+ */
+function _parseOrder<T extends Model>(order: OrderBy<T>[], reverse: boolean): OrderKey[] {
+  return order.map((key) => {
+    const descending = key.startsWith('-')
+    return {
+      field: descending ? key.slice(1) : key,
+      descending: descending !== reverse,
+    }
+  })
+}
+
+/**
+ * Checks if sorted key ranges don't overlap, in which case reading them one after the other keeps the order of the index.
+ * @param ranges - The key ranges, sorted by their lower bound
+ * @returns - Whether the key ranges are disjoint
+ */
+function _disjoint(ranges: IDBKeyRange[]): boolean {
+  return ranges.every((range, i) => i === 0 || indexedDB.cmp(ranges[i - 1].upper, range.lower) < 0)
+}
+
+/**
+ * Finds the direction in which an index reads the rows in the order of the query.
+ * The fields fixed by equalities can be skipped, the ordering has to match the following ones,
+ * all in the same direction.
+ * @param fields - The fields of the index
+ * @param fixed - The amount of leading fields matched by equalities
+ * @param order - The fields to order by
+ * @returns - The direction of the cursors, or null if the index can't provide the order
+ */
+function _orderDirection(
+  fields: string[],
+  fixed: number,
+  order: OrderKey[],
+): IDBCursorDirection | null {
+  const fixedFields = fields.slice(0, fixed)
+  const keys = order.filter(key => !fixedFields.includes(key.field))
+  // The ordering fields all have a single value
+  if (!keys.length)
+    return order[0].descending ? 'prev' : 'next'
+
+  const rest = fields.slice(fixed)
+  const descending = keys[0].descending
+  const matches = keys.length <= rest.length
+    && keys.every((key, i) => key.field === rest[i] && key.descending === descending)
+  if (!matches)
+    return null
+  return descending ? 'prev' : 'next'
+}
+
+/**
+ * Lists the ways a query can read its rows, from the most selective one to reading the whole table.
+ * The primary key and the indexes are considered, the more fields matched by equalities the better,
+ * a unique index fully matched being the best.
+ * If the query has an order, the plans reading the rows in this order come first,
+ * the other ones sorting the rows in memory.
+ * @param modelName - The class name of the model
+ * @param filters - The filters of the query
+ * @param order - The ordering of the query
+ * @param reverse - Whether the query is reversed
+ * @returns - The plans, best first
+ * @internal
+ */
+export function _planQuery<T extends Model>(
+  modelName: string,
+  filters: QueryFilter<T>[],
+  order: OrderBy<T>[],
+  reverse: boolean,
+): QueryPlan<T>[] {
+  const conditions = _getFieldConditions(filters)
+  const orderKeys = _parseOrder(order, reverse)
+  const defaultDirection = reverse ? 'prev' : 'next'
+  const sort = orderKeys.length
+    ? orderKeys.map(({ field, descending }) => (descending ? `-${field}` : field) as OrderBy<T>)
+    : undefined
+  const plans: (ScoredPlan<T> & { ordered: boolean })[] = []
+
+  for (const candidate of _getCandidates(modelName)) {
+    const planned = _planCandidate(candidate, conditions)
+    if (!planned) {
+      // Reading the whole index can still provide the order
+      const direction = orderKeys.length ? _orderDirection(candidate.fields, 0, orderKeys) : null
+      if (direction) {
+        plans.push({
+          index: candidate.index,
+          keyRanges: null,
+          direction,
+          residualFilters: [...filters],
+          score: 0,
+          ordered: true,
+        })
+      }
+      continue
+    }
+
+    const keyRanges = _sortRanges(planned.keyRanges, 'next')
+    // A single row is always ordered
+    const single = candidate.unique && planned.equalities === candidate.fields.length
+    const direction = (orderKeys.length && !single && _disjoint(keyRanges))
+      ? _orderDirection(candidate.fields, planned.equalities, orderKeys)
+      : null
+    const ordered = single || !!direction
+    plans.push({
+      index: candidate.index,
+      keyRanges: (direction === 'prev' || (!direction && reverse)) ? keyRanges.reverse() : keyRanges,
+      direction: direction || defaultDirection,
+      residualFilters: _residualFilters(filters, planned.covered),
+      score: planned.score,
+      ordered,
+      ...(ordered ? {} : { sort }),
+    })
+  }
+
+  // The sort is stable, the primary key wins ties
+  plans.sort((a, b) => Number(b.ordered) - Number(a.ordered) || b.score - a.score)
+  return [
+    ...plans.map(({ score: _, ordered: __, ...plan }) => plan),
+    {
+      index: null,
+      keyRanges: null,
+      direction: defaultDirection,
+      residualFilters: [...filters],
+      ...(sort ? { sort } : {}),
+    },
+  ]
+}
+
+/**
+ * Plans the read of the index chosen by the user, see {@link Query.withIndex}.
+ * @param modelName - The class name of the model
+ * @param index - The name of the index
+ * @param keyRanges - The key ranges of the index query, null to read the whole index
+ * @param filters - The filters of the query
+ * @param order - The ordering of the query
+ * @param reverse - Whether the query is reversed
+ * @returns - The plan, sorting the rows in memory if the index doesn't provide the order
+ * @internal
+ */
+export function _planIndex<T extends Model>(
+  modelName: string,
+  index: string,
+  keyRanges: IDBKeyRange[] | null,
+  filters: QueryFilter<T>[],
+  order: OrderBy<T>[],
+  reverse: boolean,
+): QueryPlan<T> {
+  const orderKeys = _parseOrder(order, reverse)
+  const candidate = _getCandidates(modelName).find(candidate => candidate.index === index)
+  const sorted = keyRanges && _sortRanges(keyRanges, 'next')
+  const direction = (orderKeys.length && candidate && (!sorted || _disjoint(sorted)))
+    ? _orderDirection(candidate.fields, 0, orderKeys)
+    : null
+
+  if (!orderKeys.length || direction) {
+    const planDirection = direction || (reverse ? 'prev' : 'next')
+    return {
+      index,
+      keyRanges: sorted && _sortRanges(sorted, planDirection),
+      direction: planDirection,
+      residualFilters: [...filters],
+    }
+  }
+  return {
+    index,
+    keyRanges: sorted,
+    direction: 'next',
+    residualFilters: [...filters],
+    sort: orderKeys.map(({ field, descending }) => (descending ? `-${field}` : field) as OrderBy<T>),
+  }
+}
+
+/**
+ * Compares two values in the order of IDB's indexes, the values that can't be keys coming first.
+ * @param a - The first value
+ * @param b - The second value
+ * @returns - A negative number if a comes first, a positive one if b does, 0 if they're equal
+ * @internal
+ */
+export function _compareValues(a: unknown, b: unknown): number {
+  const aValid = _isValidKey(a)
+  const bValid = _isValidKey(b)
+  return (aValid && bValid)
+    ? indexedDB.cmp(a, b)
+    : Number(aValid) - Number(bValid)
+}
+
+/**
+ * Creates a comparison function of rows, following the order of IDB's indexes.
+ * @param sort - The ordering, a `-` prefix meaning a descending field
+ * @returns - The comparison function
+ * @internal
+ */
+export function _compareRows(sort: string[]): (a: unknown, b: unknown) => number {
+  const keys = sort.map(key =>
+    key.startsWith('-') ? { field: key.slice(1), sign: -1 } : { field: key, sign: 1 },
+  )
+  return (a, b) => {
+    for (const { field, sign } of keys) {
+      const comparison = _compareValues(
+        (a as Record<string, unknown>)[field],
+        (b as Record<string, unknown>)[field],
+      )
+      if (comparison)
+        return sign * comparison
+    }
+    return 0
+  }
+}
+
+/**
+ * Counts the rows a plan reads.
+ * @param store - The object store of the model
+ * @param plan - The plan
+ * @returns - The amount of rows, those found by several key ranges are counted several times
+ * @internal
+ */
+export async function _estimatePlan<T extends Model>(
+  store: IDBObjectStore,
+  plan: QueryPlan<T>,
+): Promise<number> {
+  const source = plan.index === null ? store : store.index(plan.index)
+  const counts = await Promise.all(
+    (plan.keyRanges || [undefined]).map(range =>
+      new Promise<number>((resolve, reject) => {
+        const request = source.count(range)
+        request.onerror = (_) => {
+          reject(request.error)
+        }
+        request.onsuccess = (_) => {
+          resolve(request.result)
+        }
+      }),
+    ),
+  )
+  return counts.reduce((total, count) => total + count, 0)
+}
@@ -1,19 +1,55 @@
 import type {
+  Accumulator,
+  AggregateResults,
+  Aggregates,
   CursorCallback,
-  Filter,
+  FieldTransformer,
   ForEachCallback,
   ModelFieldKey,
-  ModelFields,
+  ObserveCallback,
   OrderBy,
-  SimpleFilter,
+  Page,
+  QueryFilter,
+  QueryObserver,
+  QueryPlan,
   TransactionOrMode,
 } from './types'
 import type { Model } from './models'
-import { _objectStore } from './transaction'
+import { _getDatabase, _objectStore, _transaction } from './transaction'
 import { WormError } from './errors'
-import { _getIndexableFields } from './metadata'
+import { TablesMetadata, _getIndexes, _getVersionField } from './metadata'
+import { _runBulkHooks } from './hooks'
+import { _assertValid } from './validation'
+import { _assertVersion, _bumpVersion } from './concurrency'
+import { _touchTimestamps } from './timestamps'
+import { _filterToDB, _fromDB, _fromStoreKey, _instantiate, _toDB } from './serialization'
+import {
+  _applyOnDelete,
+  _deleteTables,
+  _getDependents,
+  _loadRelations,
+  _relationTables,
+} from './relations'
+import { FieldFilter, _fitsFilter, _isValidKey, _valueToDB } from './filters'
+import {
+  _compareRows,
+  _estimatePlan,
+  _planIndex,
+  _planQuery,
+} from './planner'
+import { MaxAggregate, MinAggregate } from './aggregates'
+import { _onChanges, _recordChange } from './observers'
+import type { CursorPosition } from './pagination'
+import {
+  _decodeCursor,
+  _encodeCursor,
+  _keyOf,
+  _planOrder,
+  _rangeFrom,
+  _rowPosition,
+} from './pagination'
 
-export class BetweenFilter<T> {
+export class BetweenFilter<T> extends FieldFilter<T> {
   /** The minimum key for IDB */
   static minKey = -Infinity
   /** The "maximum" key for IDB */
@@ -39,7 +75,9 @@ export class BetweenFilter<T> {
     public upper: T | null,
     public lowerOpen = false,
     public upperOpen = false,
-  ) {}
+  ) {
+    super()
+  }
 
   /**
    * Recursively replaces the null values with the default value.
@@ -66,6 +104,19 @@ export class BetweenFilter<T> {
     return IDBKeyRange.bound(lower, upper, this.lowerOpen, this.upperOpen)
   }
 
+  public keyRanges(): IDBKeyRange[] {
+    return [this.keyRange()]
+  }
+
+  public toDB(transformer: FieldTransformer<T>): BetweenFilter<unknown> {
+    return new BetweenFilter(
+      _valueToDB(this.lower, transformer),
+      _valueToDB(this.upper, transformer),
+      this.lowerOpen,
+      this.upperOpen,
+    )
+  }
+
   /**
    * Checks if a value fits the filter.
    * @param value - The value to check
@@ -116,21 +167,61 @@ export function Between<T>(
   return new BetweenFilter(lower, upper, lowerOpen, upperOpen)
 }
 
+/**
+ * Serializes a primary key, to compare it with the ones already found.
+ * @param key - The primary key
+ * @returns - A string unique to the key
+ */
+function _serializeKey(key: IDBValidKey): string {
+  if (Array.isArray(key))
+    return `[${key.map(_serializeKey).join(',')}]`
+  if (key instanceof Date)
+    return `d${key.getTime()}`
+  if (typeof key === 'number')
+    return `n${key}`
+  if (typeof key === 'string')
+    return `s${JSON.stringify(key)}`
+
+  const bytes = ArrayBuffer.isView(key)
+    ? new Uint8Array(key.buffer, key.byteOffset, key.byteLength)
+    : new Uint8Array(key)
+  return `b${bytes.join(',')}`
+}
+
+/**
+ * Serializes the values of the grouping fields of a row, to find its group.
+ * @param values - The values of the grouping fields
+ * @returns - The key of the group
+ */
+function _groupKey(values: unknown[]): string {
+  return values
+    .map(value => (_isValidKey(value) ? _serializeKey(value as IDBValidKey) : `j${String(JSON.stringify(value))}`))
+    .join('|')
+}
+
 export class Query<T extends Model> {
-  /** The filters to apply to the query */
-  private filters = {} as Filter<T>
-  /** The field to order the query by */
-  private _orderBy?: ModelFieldKey<T>
+  /** The filters to apply to the query, all of them have to be fulfilled */
+  private filters: QueryFilter<T>[] = []
+  /** The fields to order the query by */
+  private _orderBy: OrderBy<T>[] = []
   /** Index to use */
   private _index?: string
   /** Index query */
-  private _indexQuery?: BetweenFilter<unknown>
+  private _indexQuery?: FieldFilter<unknown>
   /** Whether to reverse the order of the query */
   private _reverse = false
   /** Maximum amount of items to return */
   private _limit?: number
   /** Amount of items to skip */
   private _skip?: number
+  /** Whether to choose the index by counting the rows */
+  private _estimate = false
+  /** The position to read the results after */
+  private _after?: CursorPosition
+  /** The position to read the results before */
+  private _before?: CursorPosition
+  /** Relations to load with the results */
+  private _includes: string[] = []
 
   /**
    * A query builder for the models.
@@ -148,9 +239,11 @@ export class Query<T extends Model> {
 
   /**
    * Update the filters of the query.
-   * This will not reset the filters, but will merge the new filters with the old ones.
+   * This will not reset the filters, the results have to fulfill both the new filters and the old ones.
    *
-   * For ranges, it is recommended to use a {@link BetweenFilter} for performance reasons.
+   * For ranges, it is recommended to use a {@link BetweenFilter} for performance reasons,
+   * and for lists of values an {@link InFilter}: an index is then used, with a cursor per value.
+   * Filters can be combined with {@link or} and {@link not}, on a field or as a whole.
    *
    * @param filters - The new filters to apply to the query
    * @returns - The query itself, to allow chaining
@@ -159,10 +252,14 @@ export class Query<T extends Model> {
    * ```
    * // Get all users with the name "John" and the age 20
    * const query = User.filter({ name: 'John' }).filter({ age: 20 })
+   * // Get all users named John or Jane, but not aged 20
+   * const query = User.filter({ name: In(['John', 'Jane']), age: NotEqual(20) })
+   * // Get all users named John or aged 20
+   * const query = User.filter(or({ name: 'John' }, { age: 20 }))
    * ```
    */
-  public filter(filters: Filter<T>): Query<T> {
-    Object.assign(this.filters, filters)
+  public filter(filters: QueryFilter<T>): Query<T> {
+    this.filters.push(filters)
     return this
   }
 
@@ -178,17 +275,18 @@ export class Query<T extends Model> {
    * query.resetFilters()
    */
   public resetFilters(): Query<T> {
-    this.filters = {} as Filter<T>
+    this.filters = []
     return this
   }
 
   /**
-   * Update the field used to order the query.
+   * Update the fields used to order the query, replacing the previous ones.
    *
-   * Given that this uses the index under the hood, you have to choose between using this or {@link withIndex};
-   * up to you to benchmark which one is faster.
+   * An index is used when one provides the order: the primary key, the index of a field,
+   * or a compound index whose fields start with the ordering ones, all in the same direction.
+   * Otherwise, the results are sorted in memory, which means reading all of them before applying the limit and offset.
    *
-   * @param field - The field to order the query by, prepend with `-` to reverse the order
+   * @param fields - The fields to order the query by, prepend with `-` to reverse the order of a field
    * @returns - The query itself, to allow chaining
    *
    * @example
@@ -197,22 +295,13 @@ export class Query<T extends Model> {
    * const query = User.orderBy('name')
    * // Get all users ordered by their name descending
    * const query = User.orderBy('-name')
+   * // Get all users ordered by their name, and then by their age descending
+   * const query = User.orderBy('name', '-age')
+   * ```
    */
-  public orderBy(field: OrderBy<T>): Query<T> {
-    if (this._index) {
-      throw new WormError(
-        'Cannot order by field when using an index: order it manually, or use `resetIndex` instead',
-      )
-    }
-
-    if (field.startsWith('-')) {
-      this._reverse = true
-      this._orderBy = field.slice(1) as ModelFieldKey<T>
-    }
-    else {
-      this._reverse = false
-      this._orderBy = field as ModelFieldKey<T>
-    }
+  public orderBy(...fields: OrderBy<T>[]): Query<T> {
+    this._reverse = false
+    this._orderBy = fields
     return this
   }
 
@@ -267,23 +356,58 @@ export class Query<T extends Model> {
     return this
   }
 
+  /**
+   * Only return the results after a pagination cursor, see {@link paginate}.
+   * Unlike {@link offset}, the rows before the cursor aren't read: the cursors of the index resume from its position.
+   * The query has to keep the order of the one the cursor comes from.
+   * @param cursor - The pagination cursor, the position of the last result seen
+   * @returns - The query itself, to allow chaining
+   *
+   * @example
+   * ```ts
+   * const page = await User.orderBy('name').paginate({ pageSize: 10 })
+   * // The next 10 users
+   * const next = await User.orderBy('name').after(page.nextCursor).limit(10).all()
+   * ```
+   */
+  public after(cursor: string): Query<T> {
+    this._after = _decodeCursor(cursor)
+    this._before = undefined
+    return this
+  }
+
+  /**
+   * Only return the results before a pagination cursor, see {@link paginate}.
+   * The limit and offset are counted backwards from the cursor, the results staying in the order of the query.
+   * @param cursor - The pagination cursor, the position of the first result seen
+   * @returns - The query itself, to allow chaining
+   *
+   * @example
+   * ```ts
+   * // The 10 users before the current page
+   * const previous = await User.orderBy('name').before(page.prevCursor).limit(10).all()
+   * ```
+   */
+  public before(cursor: string): Query<T> {
+    this._before = _decodeCursor(cursor)
+    this._after = undefined
+    return this
+  }
+
   /**
    * Define the index to use for the query, with an optional filter query.
-   * Given that the orderBy also uses the index, only one can be used at once,
-   * up to you to benchmark which one is faster.
+   * If the query has an order that the index doesn't provide, the results are sorted in memory, see {@link orderBy}.
+   * The query has to be able to use the index, eg. a {@link BetweenFilter} or an {@link InFilter}.
    * @param index - The index to use
    * @param query - The query to use on the index
    * @returns
    */
   public withIndex(
     index: ModelFieldKey<T> | string,
-    query?: BetweenFilter<unknown>,
+    query?: FieldFilter<unknown>,
   ): Query<T> {
-    if (this._orderBy) {
-      throw new WormError(
-        'Cannot order by field when using an index: order it manually or don\'t use an index',
-      )
-    }
+    if (query && !query.keyRanges())
+      throw new WormError('The query of an index has to be able to use it')
 
     this._index = index
     if (query)
@@ -298,159 +422,394 @@ export class Query<T extends Model> {
   }
 
   /**
-   * Checks if the given instance fits the filters of the query.
-   * @param instance - The instance to check
-   * @returns - Whether the instance fits the filters
+   * Choose the index of the query by counting the rows each candidate would read, with `IDBIndex.count`.
+   * Without it, the index is chosen from the filters alone: the more fields matched by equalities the better.
+   * This costs a count per candidate, up to you to benchmark which one is faster.
+   * @param estimate - Whether to use estimates
+   * @returns - The query itself, to allow chaining
+   *
+   * @example
+   * ```ts
+   * // Read the users from the smallest of the name and age ranges
+   * const users = await User.filter({ name: 'John', age: Between(20, 30) }).estimate().all()
+   * ```
    */
-  private _fitsFilters(instance: T): boolean {
-    for (const [key, value] of Object.entries(this.filters)) {
-      if (typeof value === 'function') {
-        // If the value is a function, we call it with the instance's value
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-call
-        if (!value(instance[key as keyof T]))
-          return false
-        continue
-      }
-      else if (value instanceof BetweenFilter) {
-        // If the value is a BetweenFilter, we check if the instance's value is between the filter's values
-        if (!value.fits(instance[key as keyof T]))
-          return false
-      }
-      else {
-        // If the value is not a function, we compare it with the instance's value
-        if (instance[key as keyof T] !== (value as T[keyof T]))
-          return false
-      }
-    }
-    return true
+  public estimate(estimate = true): Query<T> {
+    this._estimate = estimate
+    return this
   }
 
   /**
-   * Get the appropriate key range for the given simple filter.
-   * If the filter is a BetweenFilter, it will return the key range of the filter.
-   * Otherwise, it will return a key range with just the value.
-   * @param value - The value of the simple filter
-   * @returns - The key range for the simple filter
+   * Describes how the query would read its rows, without reading them.
+   * @param tx - The transaction to use, required to count the rows when using {@link estimate}
+   * @returns - The plan of the query: its index, key ranges, direction and the filters checked on each row
+   *
+   * @example
+   * ```ts
+   * const plan = await User.filter({ name: 'John', age: 20 }).explain()
+   * // { index: 'nameAge', keyRanges: [IDBKeyRange.only(['John', 20])], direction: 'next', residualFilters: [] }
+   * ```
    */
-  private _getKeyRange(value: unknown): IDBKeyRange {
-    if (value instanceof BetweenFilter)
-      return value.keyRange()
+  async explain(tx?: IDBTransaction): Promise<QueryPlan<T>> {
+    const store = _objectStore(this.TargetModel.name, tx || 'readonly')
+    return this._getPlan(store)
+  }
 
-    return IDBKeyRange.only(value)
+  /**
+   * Load some relations of the results, see {@link ForeignKey}.
+   * They are set on the instances under the relation's name:
+   * the referenced instance or null for a foreign key, the list of referencing instances for its inverse.
+   *
+   * The lookups are batched in the query's transaction, which has to include the related tables if one is provided.
+   * Only {@link first} and {@link all} load the relations.
+   *
+   * @param relations - The names of the relations to load
+   * @returns - The query itself, to allow chaining
+   *
+   * @example
+   * ```ts
+   * // Get the posts with their author
+   * const posts = await Post.filter({ published: true }).include('author').all()
+   * // Get the users with their posts
+   * const users = await User.include('posts').all()
+   * ```
+   */
+  public include(...relations: string[]): Query<T> {
+    this._includes.push(...relations)
+    return this
   }
 
   /**
-   * Utility function to get the cursor of the query.
-   * If the query has an order, it will use the index of the order.
-   * Otherwise, if the query has a simple filter, it will use the index of the filter + add a query.
-   * @returns
+   * Opens a transaction including the related tables, if relations have to be loaded.
+   * @param tx - The transaction provided by the user
+   * @returns - The transaction to run the query in, undefined to use a default one
    */
-  private _getCursor(
-    txOrMode: TransactionOrMode = 'readonly',
-  ): IDBRequest<IDBCursorWithValue | null> {
-    const store = _objectStore(this.TargetModel.name, txOrMode)
+  private _includeTransaction(tx?: IDBTransaction): IDBTransaction | undefined {
+    if (tx || !this._includes.length)
+      return tx
 
-    if (this._index) {
-      const index = store.index(this._index)
+    const modelName = this.TargetModel.name
+    const tables = [
+      TablesMetadata[modelName]?.tableName || modelName,
+      ..._relationTables(modelName, this._includes),
+    ]
+    return _transaction(modelName, tables, 'readonly')
+  }
+
+  /**
+   * Loads the included relations of the results.
+   * @param instances - The results of the query
+   * @param tx - The transaction of the query
+   */
+  private async _loadIncludes(
+    instances: T[],
+    tx?: IDBTransaction,
+  ): Promise<void> {
+    if (!tx || !this._includes.length || !instances.length)
+      return
+    await _loadRelations(this.TargetModel.name, instances, this._includes, tx)
+  }
+
+  /**
+   * Utility function to plan how the query reads its rows.
+   * If the query has an index, it will use this index, and check all the filters on each row.
+   * Otherwise, the most selective index is chosen among the primary key and the indexes matching the filters,
+   * by counting their rows if the query uses estimates.
+   * The indexes providing the order of the query are preferred, if not estimating.
+   * @param store - The object store of the model
+   * @returns - The plan of the query
+   */
+  private async _getPlan(store: IDBObjectStore): Promise<QueryPlan<T>> {
+    const modelName = this.TargetModel.name
+    // The rows and the indexes hold the stored values
+    const filters = this.filters.map(filter => _filterToDB(modelName, filter))
 
-      return index.openCursor(
-        this._indexQuery?.keyRange(),
-        this._reverse ? 'prev' : 'next',
+    if (this._index) {
+      return _planIndex(
+        modelName,
+        this._index,
+        this._indexQuery?.keyRanges() || null,
+        filters,
+        this._orderBy,
+        this._reverse,
       )
     }
 
-    if (this._orderBy) {
-      const index = store.index(this._orderBy)
+    const plans = _planQuery(modelName, filters, this._orderBy, this._reverse)
+    if (!this._estimate)
+      return plans[0]
 
-      return index.openCursor(undefined, this._reverse ? 'prev' : 'next')
+    let best = plans[0]
+    for (const plan of plans) {
+      plan.estimate = await _estimatePlan(store, plan)
+      if (plan.estimate < (best.estimate as number))
+        best = plan
     }
+    return best
+  }
 
-    const simpleFilter = this._findSimpleFilter()
+  /**
+   * Utility function to handle a cursor's cycle.
+   * This implement the limit, offset, filter and the pagination cursors.
+   * If the rows have to be sorted in memory, or are read backwards from a {@link before} cursor,
+   * they are read first, and then a cursor is opened on each of them in order.
+   * @param valueCallback - The callback to call for each value
+   * @param txOrMode - The transaction or mode to use
+   * @param keyField - If only the primary key (null) or the value of a field is needed,
+   * key cursors are used when no row has to be read, in which case the callback gets cursors without value
+   * @param onPlan - Called with the plan of the query and its source, before reading the rows
+   * @returns - A promise that resolves when the cursor is done
+   */
+  private async _cursorLogic(
+    valueCallback: CursorCallback,
+    txOrMode?: TransactionOrMode,
+    keyField?: string | null,
+    onPlan?: (plan: QueryPlan<T>, source: IDBObjectStore | IDBIndex) => void,
+  ): Promise<void> {
+    const store = _objectStore(this.TargetModel.name, txOrMode)
+    const plan = await this._getPlan(store)
+    const source = plan.index === null ? store : store.index(plan.index)
+    const position = this._after || this._before
+    if (position)
+      this._checkPosition(position, plan, source)
+    onPlan?.(plan, source)
 
-    if (simpleFilter) {
-      const index = store.index(simpleFilter.key)
+    if (!plan.sort && !this._before) {
+      const keysOnly = keyField !== undefined
+        && !plan.residualFilters.length
+        && (keyField === null || this._isFieldIndex(plan.index, keyField))
+      await this._readPlan(store, plan, valueCallback, {
+        skip: this._skip,
+        limit: this._limit,
+        keysOnly,
+        from: this._after,
+      })
+      return
+    }
 
-      return index.openCursor(
-        this._getKeyRange(simpleFilter.value),
-        this._reverse ? 'prev' : 'next',
-      )
+    const skip = this._skip || 0
+    let keys: IDBValidKey[]
+
+    if (plan.sort) {
+      const rows: { key: IDBValidKey; value: unknown }[] = []
+      await this._readPlan(store, plan, (cursor) => {
+        rows.push({ key: cursor.primaryKey, value: cursor.value })
+        return Promise.resolve(false)
+      })
+
+      // The primary key breaks ties, for the positions to be unique
+      const compareValues = _compareRows(plan.sort)
+      const compare = (a: { key: IDBValidKey; value: unknown }, b: { key: IDBValidKey; value: unknown }) =>
+        compareValues(a.value, b.value) || indexedDB.cmp(a.key, b.key)
+      rows.sort(compare)
+
+      let start = 0
+      let end = rows.length
+      if (position) {
+        const sortFields = plan.sort.map(field => (field.startsWith('-') ? field.slice(1) : field))
+        const positionKey = position.key as IDBValidKey[]
+        const positionRow = {
+          key: position.primaryKey,
+          value: Object.fromEntries(sortFields.map((field, i) => [field, positionKey[i]])),
+        }
+        const index = rows.findIndex(row => compare(row, positionRow) > 0)
+        const found = index === -1 ? rows.length : index
+        if (this._after)
+          start = found
+        else
+          end = (found > 0 && compare(rows[found - 1], positionRow) === 0) ? found - 1 : found
+      }
+
+      if (this._before) {
+        end = Math.max(start, end - skip)
+        start = this._limit === undefined ? start : Math.max(start, end - this._limit)
+      }
+      else {
+        start += skip
+        end = this._limit === undefined ? end : Math.min(end, start + this._limit)
+      }
+      keys = rows.slice(start, end).map(row => row.key)
+    }
+    else {
+      // Read backwards from the position, and then put the rows back in order
+      keys = []
+      const backwards: QueryPlan<T> = {
+        ...plan,
+        keyRanges: plan.keyRanges && [...plan.keyRanges].reverse(),
+        direction: plan.direction === 'prev' ? 'next' : 'prev',
+      }
+      await this._readPlan(store, backwards, (cursor) => {
+        keys.push(cursor.primaryKey)
+        return Promise.resolve(false)
+      }, { skip, limit: this._limit, from: this._before })
+      keys.reverse()
     }
 
-    return store.openCursor(undefined, this._reverse ? 'prev' : 'next')
+    for (const key of keys) {
+      const rowPlan: QueryPlan<T> = {
+        index: null,
+        keyRanges: [IDBKeyRange.only(key)],
+        direction: 'next',
+        residualFilters: [],
+      }
+      if (await this._readPlan(store, rowPlan, valueCallback))
+        return
+    }
   }
 
   /**
-   * Look for a simple filter in the query's filters.
-   * @returns - The first simple filter found, or null if none was found
+   * Checks that a pagination cursor can be used by the plan of the query.
+   * @param position - The position of the cursor
+   * @param plan - The plan of the query
+   * @param source - The index or object store read by the plan
    */
-  private _findSimpleFilter(): SimpleFilter<T> | null {
-    const indexableFields = _getIndexableFields(this.TargetModel.name)
-    for (const [key, value] of Object.entries(this.filters)) {
-      if (typeof value !== 'function' && indexableFields.includes(key)) {
-        return {
-          key: key as ModelFieldKey<T>,
-          value: value as ModelFields<T>[ModelFieldKey<T>],
-        }
-      }
-    }
-    return null
+  private _checkPosition(
+    position: CursorPosition,
+    plan: QueryPlan<T>,
+    source: IDBObjectStore | IDBIndex,
+  ): void {
+    if (position.order !== _planOrder(plan))
+      throw new WormError('The pagination cursor doesn\'t match the order of the query')
+    if (source instanceof IDBIndex && source.multiEntry)
+      throw new WormError('Pagination cursors can\'t be used with multiEntry indexes')
   }
 
   /**
-   * Utility function to handle a cursor's cycle.
-   * This implement the limit, offset and filter.
+   * Utility function to read the rows of a plan with cursors.
+   * If several key ranges are used, a cursor is opened for each of them, and the rows are de-duplicated.
+   * @param store - The object store of the model
+   * @param plan - The plan of the query
    * @param valueCallback - The callback to call for each value
-   * @param txOrMode - The transaction or mode to use
-   * @returns - A promise that resolves when the cursor is done
+   * @param options - How to read the rows
+   * @param options.skip - The amount of matching rows to skip
+   * @param options.limit - The maximum amount of rows to call the callback with
+   * @param options.keysOnly - Whether to use key cursors, the plan can't have residual filters
+   * @param options.from - Only read the rows after this position, in the direction of the plan
+   * @returns - Whether the callback ended the loop
    */
-  private _cursorLogic(
+  private _readPlan(
+    store: IDBObjectStore,
+    plan: QueryPlan<T>,
     valueCallback: CursorCallback,
-    txOrMode?: TransactionOrMode,
-  ): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const request = this._getCursor(txOrMode)
+    { skip, limit, keysOnly = false, from }: {
+      skip?: number
+      limit?: number
+      keysOnly?: boolean
+      from?: CursorPosition
+    } = {},
+  ): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+      const source = plan.index === null ? store : store.index(plan.index)
+      const ranges = (plan.keyRanges || [undefined])
+        .map(range => (from ? _rangeFrom(range, from.key, plan.direction) : range))
+        .filter((range): range is IDBKeyRange | undefined => range !== null)
+      const seen = ranges.length > 1 ? new Set<string>() : null
+      const sign = plan.direction === 'prev' ? -1 : 1
+      let passed = !from
       let matches = 0
       let skipped = 0
 
-      request.onsuccess = async () => {
-        if (!request.transaction) {
-          reject(new WormError('No transaction found'))
-          return
-        }
-        // Done iterating
-        if (!request.result) {
-          resolve()
-          return
-        }
-        // If we have a limit, we check if we have reached it
-        if (matches - skipped === this._limit) {
-          resolve()
+      const openCursor = (rangeIndex: number) => {
+        if (rangeIndex >= ranges.length) {
+          resolve(false)
           return
         }
-        // Apply the filters
-        if (this._fitsFilters(request.result.value as T)) {
-          // If we have an offset, we wait until we have reached it
-          if (!this._skip || matches >= this._skip) {
-            if (await valueCallback(request.result, request.transaction)) {
-              resolve()
+
+        // The callback expects cursors without value when using key cursors
+        const request = (keysOnly
+          ? source.openKeyCursor(ranges[rangeIndex], plan.direction)
+          : source.openCursor(ranges[rangeIndex], plan.direction)) as IDBRequest<IDBCursorWithValue | null>
+        request.onsuccess = async () => {
+          if (!request.transaction) {
+            reject(new WormError('No transaction found'))
+            return
+          }
+          // Done iterating this range
+          if (!request.result) {
+            openCursor(rangeIndex + 1)
+            return
+          }
+          // Skip the rows up to the position, the ones sharing its key being ordered by primary key
+          if (from && !passed) {
+            const cursor = request.result
+            if (indexedDB.cmp(cursor.key, from.key) === 0) {
+              const comparison = sign * indexedDB.cmp(cursor.primaryKey, from.primaryKey)
+              if (comparison < 0 && source instanceof IDBIndex) {
+                cursor.continuePrimaryKey(from.key, from.primaryKey)
+                return
+              }
+              if (comparison <= 0) {
+                cursor.continue()
+                return
+              }
+            }
+            passed = true
+          }
+          // If we have a limit, we check if we have reached it
+          if (matches - skipped === limit) {
+            resolve(false)
+            return
+          }
+          // A row can be found by several ranges
+          if (seen) {
+            const key = _serializeKey(request.result.primaryKey)
+            if (seen.has(key)) {
+              request.result.continue()
               return
             }
+            seen.add(key)
           }
-          else {
-            skipped += 1
+          // Apply the filters
+          const value = request.result.value as T
+          if (plan.residualFilters.every(filter => _fitsFilter(filter, value))) {
+            // If we have an offset, we wait until we have reached it
+            if (!skip || matches >= skip) {
+              try {
+                if (await valueCallback(request.result, request.transaction)) {
+                  resolve(true)
+                  return
+                }
+              }
+              catch (e) {
+                reject(e)
+                return
+              }
+            }
+            else {
+              skipped += 1
+            }
+
+            matches += 1
           }
 
-          matches += 1
+          request.result.continue()
+        }
+        request.onerror = (event) => {
+          reject(event)
         }
-
-        request.result.continue()
-      }
-      request.onerror = (event) => {
-        reject(event)
       }
+
+      openCursor(0)
     })
   }
 
+  /**
+   * Checks if an index holds the values of a single field, as its keys.
+   * @param index - The name of the index, null for the primary key
+   * @param field - The field
+   * @returns - Whether the keys of the index are the values of the field
+   */
+  private _isFieldIndex(index: string | null, field: string): boolean {
+    const modelName = this.TargetModel.name
+    if (index === null || !(modelName in TablesMetadata))
+      return false
+    const indexOptions = _getIndexes(modelName)[index]
+    return !!indexOptions
+      && !indexOptions.multiEntry
+      && indexOptions.fields.length === 1
+      && indexOptions.fields[0] === field
+  }
+
   /**
    * Executes the query and returns the first result.
    * @returns - The first result of the query, or null if no result was found
@@ -461,15 +820,17 @@ export class Query<T extends Model> {
    * const query = User.filter({ name: 'John' }).first()
    */
   async first(tx?: IDBTransaction): Promise<T | null> {
+    const transaction = this._includeTransaction(tx)
     let result: T | null = null
 
     await this._cursorLogic((cursor) => {
-      const instance = new this.TargetModel()
-      Object.assign(instance, cursor.value)
+      const instance = _instantiate(this.TargetModel, cursor.value)
       result = instance
       return Promise.resolve(true)
-    }, tx)
+    }, transaction)
 
+    if (result)
+      await this._loadIncludes([result], transaction)
     return result
   }
 
@@ -484,15 +845,16 @@ export class Query<T extends Model> {
    * ```
    */
   async all(tx?: IDBTransaction): Promise<T[]> {
+    const transaction = this._includeTransaction(tx)
     const result: T[] = []
 
     await this._cursorLogic((cursor) => {
-      const instance = new this.TargetModel()
-      Object.assign(instance, cursor.value)
+      const instance = _instantiate(this.TargetModel, cursor.value)
       result.push(instance)
       return Promise.resolve(false)
-    }, tx)
+    }, transaction)
 
+    await this._loadIncludes(result, transaction)
     return result
   }
 
@@ -517,8 +879,283 @@ export class Query<T extends Model> {
     return count
   }
 
+  /**
+   * Executes the query and returns a page of results, with the cursors of the pages around it.
+   * The page starts after the query's {@link after} cursor, or ends before its {@link before} cursor.
+   * The cursors are opaque strings, which can be stored to resume the pagination later on.
+   * @param options - The options of the pagination
+   * @param options.pageSize - The maximum amount of results of the page
+   * @returns - The results of the page, and the cursors of the next and previous pages, null if there's none
+   *
+   * @example
+   * ```ts
+   * const query = () => Post.filter({ published: true }).orderBy('-date')
+   * const first = await query().paginate({ pageSize: 20 })
+   * const second = await query().after(first.nextCursor).paginate({ pageSize: 20 })
+   * const back = await query().before(second.prevCursor).paginate({ pageSize: 20 })
+   * ```
+   */
+  async paginate(
+    { pageSize }: { pageSize: number },
+    tx?: IDBTransaction,
+  ): Promise<Page<T>> {
+    const transaction = this._includeTransaction(tx)
+    const rows: { instance: T; cursor: string }[] = []
+    const limit = this._limit
+    let plan: QueryPlan<T>
+    let keyPath: string | string[]
+
+    // One more result tells if there's another page
+    this._limit = pageSize + 1
+    try {
+      await this._cursorLogic((cursor) => {
+        const position = _rowPosition(plan, keyPath, cursor.value, cursor.primaryKey)
+        rows.push({
+          instance: _instantiate(this.TargetModel, cursor.value),
+          cursor: _encodeCursor(position),
+        })
+        return Promise.resolve(false)
+      }, transaction, undefined, (planned, source) => {
+        plan = planned
+        keyPath = source.keyPath
+      })
+    }
+    finally {
+      this._limit = limit
+    }
+
+    const more = rows.length > pageSize
+    const page = this._before
+      ? rows.slice(more ? 1 : 0)
+      : rows.slice(0, pageSize)
+    const items = page.map(row => row.instance)
+    await this._loadIncludes(items, transaction)
+
+    const first = page.length ? page[0].cursor : null
+    const last = page.length ? page[page.length - 1].cursor : null
+    return {
+      items,
+      nextCursor: this._before ? last : (more ? last : null),
+      prevCursor: this._before ? (more ? first : null) : (this._after ? first : null),
+    }
+  }
+
+  /**
+   * Executes the query and returns the primary keys of the results.
+   * The rows aren't read if the filters are fully handled by the index, see {@link explain}.
+   * @returns - The primary keys of the results, as a list of the values of the primary key fields
+   *
+   * @example
+   * ```ts
+   * // Get the keys of the users aged 20 to 30
+   * const keys = await User.filter({ age: Between(20, 30) }).keys()
+   * ```
+   */
+  async keys(tx?: IDBTransaction): Promise<IDBValidKey[][]> {
+    const modelName = this.TargetModel.name
+    const keys: IDBValidKey[][] = []
+
+    await this._cursorLogic((cursor) => {
+      keys.push(_fromStoreKey(modelName, cursor.primaryKey))
+      return Promise.resolve(false)
+    }, tx, null)
+
+    return keys
+  }
+
+  /**
+   * Executes the query and returns the values of a field of the results.
+   * The rows aren't read if the index of the field is used and fully handles the filters, see {@link explain}.
+   * @param field - The field
+   * @returns - The values of the field
+   *
+   * @example
+   * ```ts
+   * // Get the names of the users, from the index
+   * const names = await User.orderBy('name').values('name')
+   * ```
+   */
+  async values<K extends ModelFieldKey<T>>(field: K, tx?: IDBTransaction): Promise<T[K][]> {
+    const modelName = this.TargetModel.name
+    const values: T[K][] = []
+
+    await this._cursorLogic((cursor) => {
+      const keyCursor: IDBCursor = cursor
+      const value: unknown = keyCursor instanceof IDBCursorWithValue
+        ? (keyCursor.value as Record<string, unknown>)[field]
+        : keyCursor.key
+      const record = _fromDB(modelName, { [field]: value }) as Record<string, unknown>
+      values.push(record[field] as T[K])
+      return Promise.resolve(false)
+    }, tx, field)
+
+    return values
+  }
+
+  /**
+   * Restricts the results to some fields, returned as plain objects instead of model instances.
+   * @param fields - The fields to keep
+   * @returns - The query of the selected fields
+   *
+   * @example
+   * ```ts
+   * // Get the ids and titles of the posts, without their content
+   * const posts = await Post.orderBy('-date').select('id', 'title').all()
+   * ```
+   */
+  public select<K extends ModelFieldKey<T>>(...fields: K[]): SelectQuery<T, K> {
+    const modelName = this.TargetModel.name
+    return new SelectQuery((callback, txOrMode) =>
+      this._cursorLogic(async (cursor, tx) => {
+        const row = cursor.value as Record<string, unknown>
+        const selected = Object.fromEntries(
+          fields.filter(field => field in row).map(field => [field, row[field]]),
+        )
+        return callback(_fromDB(modelName, selected) as Pick<T, K>, tx)
+      }, txOrMode),
+    )
+  }
+
+  /**
+   * Executes the query and computes some aggregates over its results, without instantiating the models.
+   * @param aggregates - The aggregates to compute, by name, see {@link sum}, {@link avg}, {@link min}, {@link max} and {@link count}
+   * @returns - The results of the aggregates, by name
+   *
+   * @example
+   * ```ts
+   * // Get the total amount of the orders, and their amount
+   * const { total, n } = await Order.filter({ paid: true }).aggregate({ total: sum('amount'), n: count() })
+   * ```
+   */
+  async aggregate<A extends Aggregates>(
+    aggregates: A,
+    tx?: IDBTransaction,
+  ): Promise<AggregateResults<A>> {
+    const [results] = await this._aggregate(aggregates, [], tx)
+    return results as AggregateResults<A>
+  }
+
+  /**
+   * Groups the results of the query by some fields, to compute aggregates for each group.
+   * @param fields - The fields to group by
+   * @returns - The grouped query
+   *
+   * @example
+   * ```ts
+   * // Get the total amount of the orders of each category
+   * const totals = await Order.groupBy('category').aggregate({ total: sum('amount') })
+   * // [{ category: 'food', total: 42 }, { category: 'books', total: 12 }]
+   * ```
+   */
+  public groupBy<K extends ModelFieldKey<T>>(...fields: K[]): GroupedQuery<T, K> {
+    return new GroupedQuery((aggregates, tx) => this._aggregate(aggregates, fields, tx))
+  }
+
+  /**
+   * Utility function to compute aggregates over the results, by group.
+   * The rows are streamed through the cursors, with the values of the model.
+   * Without groups, the {@link min} and {@link max} of indexed fields are read from the index if the query is unfiltered.
+   * @param aggregates - The aggregates to compute, by name
+   * @param fields - The fields to group by
+   * @param tx - The transaction to use
+   * @returns - For each group, in the order of the results, its values and the results of the aggregates
+   */
+  private async _aggregate(
+    aggregates: Aggregates,
+    fields: string[],
+    tx?: IDBTransaction,
+  ): Promise<Record<string, unknown>[]> {
+    const modelName = this.TargetModel.name
+    const names = Object.keys(aggregates)
+    const indexed = fields.length ? new Map<string, unknown>() : await this._aggregateIndexes(aggregates, tx)
+    const streamed = names.filter(name => !indexed.has(name))
+
+    type Group = { values: Record<string, unknown>; accumulators: Accumulator<unknown>[] }
+    const newGroup = (values: Record<string, unknown>): Group => ({
+      values,
+      accumulators: streamed.map(name => aggregates[name].accumulator()),
+    })
+    const groups = new Map<string, Group>()
+    if (!fields.length)
+      groups.set('', newGroup({}))
+
+    if (fields.length || streamed.length) {
+      await this._cursorLogic((cursor) => {
+        const row = _fromDB(modelName, cursor.value as object) as Record<string, unknown>
+        const key = _groupKey(fields.map(field => row[field]))
+        let group = groups.get(key)
+        if (!group) {
+          group = newGroup(Object.fromEntries(fields.map(field => [field, row[field]])))
+          groups.set(key, group)
+        }
+        group.accumulators.forEach(accumulator => accumulator.add(row))
+        return Promise.resolve(false)
+      }, tx)
+    }
+
+    return [...groups.values()].map(({ values, accumulators }) => {
+      const results = { ...values }
+      for (const name of names) {
+        const i = streamed.indexOf(name)
+        results[name] = i === -1 ? indexed.get(name) : accumulators[i].result()
+      }
+      return results
+    })
+  }
+
+  /**
+   * Utility function to compute the {@link min} and {@link max} of indexed fields, in a single cursor step on their index.
+   * This is only possible if the query is unfiltered and unpaginated, without an offset, a limit or a cursor.
+   * @param aggregates - The aggregates to compute, by name
+   * @param tx - The transaction to use
+   * @returns - The results of the aggregates computed, by name
+   */
+  private async _aggregateIndexes(
+    aggregates: Aggregates,
+    tx?: IDBTransaction,
+  ): Promise<Map<string, unknown>> {
+    const results = new Map<string, unknown>()
+    const modelName = this.TargetModel.name
+    const paginated = this._skip !== undefined
+      || this._limit !== undefined
+      || this._after !== undefined
+      || this._before !== undefined
+    if (this.filters.length || this._index || paginated || !(modelName in TablesMetadata))
+      return results
+
+    const indexes = _getIndexes(modelName)
+    const names = Object.keys(aggregates).filter((name) => {
+      const aggregate = aggregates[name]
+      const index = aggregate.field !== undefined && indexes[aggregate.field]
+      return aggregate instanceof MinAggregate && index && index.fields.length === 1 && !index.multiEntry
+    })
+    if (!names.length)
+      return results
+
+    const store = _objectStore(modelName, tx || 'readonly')
+    for (const name of names) {
+      const field = aggregates[name].field as string
+      const direction = aggregates[name] instanceof MaxAggregate ? 'prev' : 'next'
+      const key = await new Promise<IDBValidKey | undefined>((resolve, reject) => {
+        const request = store.index(field).openKeyCursor(null, direction)
+        request.onerror = (_) => {
+          reject(request.error)
+        }
+        request.onsuccess = (_) => {
+          resolve(request.result?.key)
+        }
+      })
+      results.set(
+        name,
+        key === undefined ? null : (_fromDB(modelName, { [field]: key }) as Record<string, unknown>)[field],
+      )
+    }
+    return results
+  }
+
   /**
    * Executes the query and deletes all the results.
+   * The `onDelete` actions of the relations referencing them are applied, see {@link ForeignKey}.
    * @returns - The amount of results deleted
    *
    * @example
@@ -528,19 +1165,27 @@ export class Query<T extends Model> {
    * ```
    */
   async delete(tx?: IDBTransaction): Promise<number> {
-    let amount = 0
+    const modelName = this.TargetModel.name
+    const dependents = _getDependents(modelName).length > 0
 
-    await this._cursorLogic((cursor) => {
-      cursor.delete()
-      amount += 1
-      return Promise.resolve(false)
-    }, tx || 'readwrite')
-
-    return amount
+    return this._bulkWrite(
+      'Delete',
+      [],
+      async (cursor, transaction) => {
+        if (dependents) {
+          const instance = _instantiate(this.TargetModel, cursor.value)
+          await _applyOnDelete(instance, transaction)
+        }
+        cursor.delete()
+      },
+      tx,
+      _deleteTables(modelName),
+    )
   }
 
   /**
    * Executes the query and updates all the results.
+   * The version field of the model is incremented, and checked first if the updates hold it, see {@link Field}.
    * @param updates - The updates to apply to the results
    * @returns - The amount of results updated
    *
@@ -548,19 +1193,87 @@ export class Query<T extends Model> {
    * ```ts
    * // Update all users with the name "John" to have the name "Jane"
    * const amount = await User.filter({ name: 'John' }).update({ name: 'Jane' })
+   * // Only if it wasn't written since version 3 was read, for models with a version field
+   * await Post.filter({ id: 1 }).update({ title: 'New', version: 3 })
    * ```
    */
   async update(updates: Partial<T>, tx?: IDBTransaction): Promise<number> {
-    let amount = 0
+    const modelName = this.TargetModel.name
+    const versionField = _getVersionField(modelName)
 
-    await this._cursorLogic((cursor) => {
-      Object.assign(cursor.value, updates)
-      cursor.update(cursor.value)
-      amount += 1
-      return Promise.resolve(false)
-    }, tx || 'readwrite')
+    return this._bulkWrite(
+      'Update',
+      [updates],
+      (cursor) => {
+        const values = { ...updates }
+        _touchTimestamps(modelName, values, false)
+        _assertValid(modelName, values, Object.keys(values))
+        const stored = { ...cursor.value } as Record<string, unknown>
+        const record = Object.assign(cursor.value, _toDB(modelName, values)) as Record<string, unknown>
+        // The version in the updates is the one they are based on
+        if (versionField && versionField in values)
+          _assertVersion(modelName, stored, record[versionField])
+        _bumpVersion(modelName, record, stored)
+        cursor.update(record)
+      },
+      tx,
+    )
+  }
 
-    return amount
+  /**
+   * Utility function to run a cursor based write between its bulk hooks.
+   * If the transaction was created for this write, it is aborted on error.
+   * @param event - The event, without its `before`/`after` prefix
+   * @param hookArgs - Extra arguments for the `before` hooks
+   * @param write - The write to apply to each row
+   * @param tx - The transaction to use
+   * @param tables - The tables the write needs when the transaction isn't provided, the model's one by default
+   * @returns - The amount of rows written
+   */
+  private async _bulkWrite(
+    event: 'Update' | 'Delete',
+    hookArgs: unknown[],
+    write: (cursor: IDBCursorWithValue, tx: IDBTransaction) => void | Promise<void>,
+    tx?: IDBTransaction,
+    tables?: string[],
+  ): Promise<number> {
+    const model = this.TargetModel
+    const transaction
+      = tx
+      || (tables
+        ? _transaction(model.name, tables, 'readwrite')
+        : _objectStore(model.name, 'readwrite').transaction)
+    const keys: IDBValidKey[] = []
+
+    try {
+      await _runBulkHooks(model, `beforeBulk${event}`, this, ...hookArgs, transaction)
+      await this._cursorLogic(async (cursor) => {
+        keys.push(cursor.primaryKey)
+        await write(cursor, transaction)
+        return false
+      }, transaction)
+      if (keys.length) {
+        _recordChange(transaction, {
+          table: TablesMetadata[model.name]?.tableName || model.name,
+          type: event === 'Delete' ? 'delete' : 'update',
+          keys,
+        })
+      }
+      await _runBulkHooks(model, `afterBulk${event}`, this, keys, transaction)
+    }
+    catch (e) {
+      if (!tx) {
+        try {
+          transaction.abort()
+        }
+        catch {
+          // The transaction is already finished
+        }
+      }
+      throw e
+    }
+
+    return keys.length
   }
 
   /**
@@ -594,12 +1307,242 @@ export class Query<T extends Model> {
     txOrMode: TransactionOrMode = 'readonly',
   ): Promise<void> {
     await this._cursorLogic(async (cursor, tx) => {
-      const instance = new this.TargetModel()
-      Object.assign(instance, cursor.value)
+      const instance = _instantiate(this.TargetModel, cursor.value)
       return callback(instance, tx)
     }, txOrMode)
   }
 
+  /**
+   * Iterates over the results of the query, which are read in batches.
+   * Each batch is read in its own transaction, which is over once the batch is read:
+   * the loop can await anything without the transaction expiring, but the batches don't share a snapshot of the table,
+   * the rows written in between are seen or not depending on their position.
+   * The batches resume from the position of the last result, like {@link after}; with `getAll` if the primary key is read unfiltered.
+   * @param batchSize - The amount of results read at once
+   * @returns - An async iterator over the results
+   *
+   * @example
+   * ```ts
+   * for await (const user of User.orderBy('name').iterate(50)) {
+   *   await sendEmail(user)
+   *   if (user.name > 'M')
+   *     break
+   * }
+   * ```
+   */
+  async *iterate(batchSize = 100): AsyncGenerator<T, void, undefined> {
+    if (this._before)
+      throw new WormError('Iteration can\'t start from a `before` cursor')
+
+    let after = this._after
+    let skip = this._skip
+    let remaining = this._limit === undefined ? Infinity : this._limit
+
+    while (remaining > 0) {
+      const limit = Math.min(batchSize, remaining)
+      const batch = this._copy()
+      batch._after = after
+      batch._skip = skip
+      batch._limit = limit
+      const { instances, last } = await batch._readBatch()
+
+      yield * instances
+      if (instances.length < limit || !last)
+        return
+      remaining -= instances.length
+      after = last
+      skip = undefined
+    }
+  }
+
+  /**
+   * Iterates over the results of the query, see {@link iterate}.
+   * @returns - An async iterator over the results
+   *
+   * @example
+   * ```ts
+   * for await (const user of User.filter({ name: 'John' }))
+   *   console.log(user)
+   * ```
+   */
+  [Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    return this.iterate()
+  }
+
+  /**
+   * Reads the results of the query in a new transaction, with the position of the last one.
+   * The object store is read with `getAll` if possible: unfiltered primary key in ascending order.
+   * @returns - The results, and the position of the last one
+   */
+  private async _readBatch(): Promise<{ instances: T[]; last?: CursorPosition }> {
+    const modelName = this.TargetModel.name
+    const transaction = this._includeTransaction() || _objectStore(modelName, 'readonly').transaction
+    const store = _objectStore(modelName, transaction)
+    const plan = await this._getPlan(store)
+    const rows: { value: unknown; position: CursorPosition }[] = []
+
+    const useGetAll = plan.index === null
+      && plan.direction === 'next'
+      && !plan.sort
+      && !plan.residualFilters.length
+      && (!plan.keyRanges || plan.keyRanges.length === 1)
+
+    if (useGetAll) {
+      const after = this._after
+      if (after)
+        this._checkPosition(after, plan, store)
+      const range = after
+        ? _rangeFrom(plan.keyRanges?.[0], after.key, 'next')
+        : plan.keyRanges?.[0]
+      const skip = this._skip || 0
+      const limit = this._limit as number
+
+      if (range !== null) {
+        // The row of the position is included by the range, if it still exists
+        const values = await new Promise<unknown[]>((resolve, reject) => {
+          const request = store.getAll(range, skip + limit + (after ? 1 : 0))
+          request.onerror = (_) => {
+            reject(request.error)
+          }
+          request.onsuccess = (_) => {
+            resolve(request.result)
+          }
+        })
+        for (const value of values) {
+          const key = _keyOf(store.keyPath, value)
+          if (!after || indexedDB.cmp(key, after.key) !== 0)
+            rows.push({ value, position: _rowPosition(plan, store.keyPath, value, key) })
+        }
+        rows.splice(0, skip)
+        rows.splice(limit)
+      }
+    }
+    else {
+      let keyPath: string | string[]
+      await this._cursorLogic((cursor) => {
+        rows.push({
+          value: cursor.value,
+          position: _rowPosition(plan, keyPath, cursor.value, cursor.primaryKey),
+        })
+        return Promise.resolve(false)
+      }, transaction, undefined, (_, source) => {
+        keyPath = source.keyPath
+      })
+    }
+
+    const instances = rows.map(row => _instantiate(this.TargetModel, row.value))
+    await this._loadIncludes(instances, transaction)
+    return { instances, last: rows[rows.length - 1]?.position }
+  }
+
+  /**
+   * Observes the results of the query: they are passed to the callback right away,
+   * and then every time a transaction writing to the model's table, or to the tables of its included relations, commits.
+   * The writes through the models, queries, {@link ManyToMany} relations and {@link importTable} are observed,
+   * the query being run again once per transaction, so the rolled back writes are never seen.
+   * With the `broadcast` option of {@link init}, the changes committed by other tabs run it again as well.
+   * The query is copied, changing it afterwards doesn't affect the observer.
+   * @param callback - Receives the results of the query
+   * @param onError - Receives the errors of the query, if any
+   * @returns - A function to stop observing the query
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = User.filter({ active: true }).orderBy('name').observe((users) => {
+   *   render(users)
+   * })
+   * // Later on
+   * unsubscribe()
+   * ```
+   */
+  public observe(
+    callback: ObserveCallback<T>,
+    onError?: (error: unknown) => void,
+  ): () => void {
+    const query = this._copy()
+    const modelName = this.TargetModel.name
+    const tables = [
+      TablesMetadata[modelName]?.tableName || modelName,
+      ..._relationTables(modelName, this._includes),
+    ]
+    let active = true
+    let running = false
+    let stale = false
+
+    // A single run at once, the changes committed meanwhile run the query again afterwards
+    const run = async () => {
+      if (running) {
+        stale = true
+        return
+      }
+      running = true
+      stale = false
+      try {
+        const results = await query.all()
+        if (active && !stale)
+          callback(results)
+      }
+      catch (e) {
+        if (active && !stale)
+          onError?.(e)
+      }
+      running = false
+      if (active && stale)
+        await run()
+    }
+
+    const stopListening = _onChanges((database, changes) => {
+      if (!changes.some(change => tables.includes(change.table)))
+        return
+      const target = TablesMetadata[modelName]?.database
+      try {
+        if (_getDatabase(modelName, target).session !== database)
+          return
+      }
+      catch {
+        // The model's database isn't connected anymore
+        return
+      }
+      void run()
+    })
+    void run()
+
+    return () => {
+      active = false
+      stopListening()
+    }
+  }
+
+  /**
+   * Observes the results of the query, see {@link observe}.
+   * @param observer - Receives the results of the query, and its errors
+   * @returns - A function to stop observing the query
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = Post.orderBy('-date').limit(10).subscribe({
+   *   next: posts => render(posts),
+   *   error: e => showError(e),
+   * })
+   * ```
+   */
+  public subscribe(observer: QueryObserver<T>): () => void {
+    return this.observe(observer.next, observer.error)
+  }
+
+  /**
+   * Copies the whole state of the query.
+   * @returns - The copy
+   */
+  private _copy(): Query<T> {
+    const copy = new Query(this.TargetModel)
+    Object.assign(copy, this)
+    copy.filters = [...this.filters]
+    copy._orderBy = [...this._orderBy]
+    copy._includes = [...this._includes]
+    return copy
+  }
+
   /**
    * Creates a copy of the current query.
    * This allows a query to branch off into multiple queries.
@@ -617,8 +1560,95 @@ export class Query<T extends Model> {
    */
   clone(): Query<T> {
     const newQuery = new Query(this.TargetModel)
-    newQuery.filters = Object.create(this.filters) as Filter<T>
+    newQuery.filters = [...this.filters]
 
     return newQuery
   }
 }
+
+export class GroupedQuery<T extends Model, K extends ModelFieldKey<T>> {
+  /**
+   * A query whose results are grouped by some fields, see {@link Query.groupBy}.
+   * @param _aggregate - Computes aggregates for each group
+   * @typeParam T - The queried model
+   * @typeParam K - The fields to group by
+   */
+  public constructor(
+    private _aggregate: (aggregates: Aggregates, tx?: IDBTransaction) => Promise<Record<string, unknown>[]>,
+  ) {}
+
+  /**
+   * Executes the query and computes some aggregates for each group of results.
+   * @param aggregates - The aggregates to compute, by name
+   * @returns - For each group, in the order of the results, the values of the grouping fields and the results of the aggregates
+   *
+   * @example
+   * ```ts
+   * // Get the average price of the products of each category and brand
+   * const prices = await Product.groupBy('category', 'brand').aggregate({ price: avg('price') })
+   * ```
+   */
+  async aggregate<A extends Aggregates>(
+    aggregates: A,
+    tx?: IDBTransaction,
+  ): Promise<(Pick<T, K> & AggregateResults<A>)[]> {
+    const groups = await this._aggregate(aggregates, tx)
+    return groups as (Pick<T, K> & AggregateResults<A>)[]
+  }
+}
+
+export class SelectQuery<T extends Model, K extends ModelFieldKey<T>> {
+  /**
+   * A query returning some fields of the results as plain objects, see {@link Query.select}.
+   * @param _cursorLogic - Loops over the selected fields of the results
+   * @typeParam T - The queried model
+   * @typeParam K - The selected fields
+   */
+  public constructor(
+    private _cursorLogic: (
+      callback: ForEachCallback<Pick<T, K>>,
+      txOrMode?: TransactionOrMode,
+    ) => Promise<void>,
+  ) {}
+
+  /**
+   * Executes the query and returns the selected fields of the first result.
+   * @returns - The selected fields of the first result, or null if no result was found
+   */
+  async first(tx?: IDBTransaction): Promise<Pick<T, K> | null> {
+    let result: Pick<T, K> | null = null
+
+    await this._cursorLogic((selected) => {
+      result = selected
+      return true
+    }, tx)
+
+    return result
+  }
+
+  /**
+   * Executes the query and returns the selected fields of all the results.
+   * @returns - The selected fields of the results
+   */
+  async all(tx?: IDBTransaction): Promise<Pick<T, K>[]> {
+    const result: Pick<T, K>[] = []
+
+    await this._cursorLogic((selected) => {
+      result.push(selected)
+    }, tx)
+
+    return result
+  }
+
+  /**
+   * Loops over the selected fields of the results, see {@link Query.forEach}.
+   * @param callback - The callback to call for each result, stopping the loop if it returns true
+   * @param txOrMode - The transaction or mode to use
+   */
+  async forEach(
+    callback: ForEachCallback<Pick<T, K>>,
+    txOrMode: TransactionOrMode = 'readonly',
+  ): Promise<void> {
+    await this._cursorLogic(callback, txOrMode)
+  }
+}
@@ -0,0 +1,717 @@
+import type {
+  Constructor,
+  ForeignKeyOptions,
+  JoinTable,
+  ManyToManyOptions,
+  ModelReference,
+  OnDeleteAction,
+  Relation,
+  ResolvedRelation,
+} from './types'
+import { Model } from './models'
+import { Field } from './fields'
+import {
+  TablesMetadata,
+  _addPendingDeclaration,
+  _addRelationToMetadata,
+  _compareArrays,
+  _handleTableData,
+  _isConcrete,
+  _overrideTableData,
+  getPrimaryKeys,
+} from './metadata'
+import { Transaction, _objectStore } from './transaction'
+import { _instantiate, _toStoreKey } from './serialization'
+import { ModelError, WormError } from './errors'
+import { _recordChange } from './observers'
+
+/**
+ * Describes a field referencing the primary key of another model.
+ * It accepts the options of a {@link Field}, the field is always indexed.
+ *
+ * The relation is named after the field without its `Id` suffix, or with the `as` option.
+ * Naming the inverse relation with `related` allows including it from the referenced model.
+ *
+ * By default deleting the referenced row leaves the referencing ones as they are, `onDelete` changes it:
+ *  - `cascade`: They are deleted too.
+ *  - `setNull`: Their foreign key is set to null, it has to be nullable.
+ *  - `restrict`: The deletion fails with a {@link Errors.ModelError} naming the first referencing row.
+ *
+ * These actions run in the transaction of the deletion, which spans the referencing tables when it isn't provided.
+ * The referencing instances are deleted or saved through the model, so their hooks run too.
+ *
+ * @see {@link Query.include} to load the related instances
+ * @see {@link Model.belongsTo} and {@link Model.hasMany} to query them
+ *
+ * @param target - The referenced model, lazily to allow circular references
+ * @param options - The options of the field and the relation
+ *
+ * @example
+ * ```ts
+ * class Post extends Model {
+ *   @Field({ primaryKey: true })
+ *   id: number
+ *   @ForeignKey(() => User, { related: 'posts', onDelete: 'cascade' })
+ *   authorId: number
+ *
+ *   // Populated by `Post.include('author')`
+ *   author?: User
+ * }
+ *
+ * const posts = await Post.include('author').all()
+ * const users = await User.include('posts').all()
+ * ```
+ */
+export function ForeignKey<T>(
+  target: ModelReference,
+  options: ForeignKeyOptions<T> = {},
+): PropertyDecorator {
+  const { as, related, onDelete, ...fieldOptions } = options
+  const field = Field<T>({ ...fieldOptions, index: true })
+
+  return function (object, propertyName) {
+    field(object, propertyName)
+
+    const foreignKey = propertyName as string
+    if (
+      onDelete === 'setNull'
+      && (fieldOptions.primaryKey || fieldOptions.nullable === false)
+    )
+      throw new ModelError(`Foreign key ${foreignKey} can't be set to null`)
+
+    const name = as || foreignKey.replace(/Id$/, '')
+    if (name === foreignKey) {
+      throw new ModelError(
+        `The relation of ${foreignKey} needs a name, use the \`as\` option`,
+      )
+    }
+
+    _addRelationToMetadata(object.constructor.name, name, {
+      source: object.constructor as Relation['source'],
+      target,
+      foreignKey,
+      related,
+      onDelete,
+    })
+  }
+}
+
+/**
+ * Finds a relation of a model by its name, from either side.
+ * @param modelName - The class name of the model
+ * @param name - The relation's name
+ * @returns - The relation, seen from the model
+ * @throws {ModelError} If the model has no such relation
+ * @internal
+ */
+export function _resolveRelation(
+  modelName: string,
+  name: string,
+): ResolvedRelation {
+  const relation = TablesMetadata[modelName]?.relations[name]
+  if (relation) {
+    return {
+      kind: 'belongsTo',
+      model: relation.target(),
+      foreignKey: relation.foreignKey,
+    }
+  }
+
+  for (const otherName in TablesMetadata) {
+    if (!_isConcrete(TablesMetadata[otherName]))
+      continue
+    for (const other of Object.values(TablesMetadata[otherName].relations)) {
+      if (other.related === name && other.target().name === modelName) {
+        return {
+          kind: 'hasMany',
+          model: other.source,
+          foreignKey: other.foreignKey,
+        }
+      }
+    }
+  }
+
+  throw new ModelError(`Model ${modelName} has no relation ${name}`)
+}
+
+/**
+ * Finds the foreign key a model uses to reference another one.
+ * @param modelName - The class name of the model declaring the foreign key
+ * @param targetName - The class name of the referenced model
+ * @param foreignKey - The expected foreign key, needed if there are several
+ * @returns - The foreign key field
+ * @throws {ModelError} If there's no matching foreign key, or several ones
+ * @internal
+ */
+export function _findForeignKey(
+  modelName: string,
+  targetName: string,
+  foreignKey?: string,
+): string {
+  const foreignKeys = Object.values(TablesMetadata[modelName]?.relations || {})
+    .filter(
+      relation =>
+        relation.target().name === targetName
+        && (!foreignKey || relation.foreignKey === foreignKey),
+    )
+    .map(relation => relation.foreignKey)
+
+  if (!foreignKeys.length)
+    throw new ModelError(`Model ${modelName} has no foreign key to ${targetName}`)
+  if (foreignKeys.length > 1) {
+    throw new ModelError(
+      `Model ${modelName} has several foreign keys to ${targetName}, specify which one to use`,
+    )
+  }
+  return foreignKeys[0]
+}
+
+/**
+ * Finds the primary key of a model referenced by a foreign key.
+ * @param modelName - The class name of the model
+ * @returns - The primary key field
+ * @throws {ModelError} If the model has a compound primary key
+ * @internal
+ */
+export function _referencedKey(modelName: string): string {
+  const primaryKeys = getPrimaryKeys(modelName)
+  if (primaryKeys.length !== 1) {
+    throw new ModelError(
+      `Model ${modelName} needs a single primary key to be referenced`,
+    )
+  }
+  return primaryKeys[0]
+}
+
+/**
+ * Lists the tables needed to load some relations of a model.
+ * @param modelName - The class name of the model
+ * @param names - The relation names
+ * @returns - The table names of the related models
+ * @internal
+ */
+export function _relationTables(modelName: string, names: string[]): string[] {
+  return names.map(
+    name => TablesMetadata[_resolveRelation(modelName, name).model.name].tableName,
+  )
+}
+
+/**
+ * Loads some relations of model instances, and sets them on the instances.
+ * The lookups of a relation are batched: each distinct key is only requested once,
+ * and all the requests are sent at once in the given transaction.
+ * @param modelName - The class name of the instances
+ * @param instances - The instances to load the relations of
+ * @param names - The relation names
+ * @param tx - The transaction to use, it must include the related tables
+ * @internal
+ */
+export async function _loadRelations(
+  modelName: string,
+  instances: Model[],
+  names: string[],
+  tx: IDBTransaction,
+): Promise<void> {
+  await Promise.all(
+    names.map(name => _loadRelation(modelName, instances, name, tx)),
+  )
+}
+
+/**
+ * Loads a relation of model instances, see {@link _loadRelations}.
+ * @param modelName - The class name of the instances
+ * @param instances - The instances to load the relation of
+ * @param name - The relation name
+ * @param tx - The transaction to use
+ * @internal
+ */
+async function _loadRelation(
+  modelName: string,
+  instances: Model[],
+  name: string,
+  tx: IDBTransaction,
+): Promise<void> {
+  const relation = _resolveRelation(modelName, name)
+  const related = relation.model
+  const store = _objectStore(related.name, tx)
+  const localField
+    = relation.kind === 'belongsTo' ? relation.foreignKey : _referencedKey(modelName)
+
+  const records = instances as unknown as Record<string, unknown>[]
+  const values = new Set(
+    records
+      .map(record => record[localField])
+      .filter(value => value !== undefined && value !== null),
+  )
+
+  const loaded = new Map<unknown, unknown[]>()
+  await Promise.all(
+    [...values].map(async (value) => {
+      const key = value as IDBValidKey
+      const rows: unknown[]
+        = relation.kind === 'belongsTo'
+          ? [await _request<unknown>(store.get(_toStoreKey(related.name, [key])))]
+          : await _request(store.index(relation.foreignKey).getAll(key))
+
+      loaded.set(
+        value,
+        rows.filter(row => row !== undefined).map(row => _instantiate(related, row)),
+      )
+    }),
+  )
+
+  for (const record of records) {
+    const rows = loaded.get(record[localField]) || []
+    record[name] = relation.kind === 'belongsTo' ? rows[0] ?? null : rows
+  }
+}
+
+/** The order the delete actions are applied in, so that nothing is written before a restriction fails */
+const onDeleteOrder: OnDeleteAction[] = ['restrict', 'setNull', 'cascade']
+
+/**
+ * Lists the relations referencing a model with a delete action.
+ * @param modelName - The class name of the referenced model
+ * @returns - The relations, restrictions first
+ * @internal
+ */
+export function _getDependents(modelName: string): Relation[] {
+  const dependents: Relation[] = []
+  for (const otherName in TablesMetadata) {
+    if (!_isConcrete(TablesMetadata[otherName]))
+      continue
+    for (const relation of Object.values(TablesMetadata[otherName].relations)) {
+      if (relation.onDelete && relation.target().name === modelName)
+        dependents.push(relation)
+    }
+  }
+
+  return dependents.sort(
+    (a, b) =>
+      onDeleteOrder.indexOf(a.onDelete as OnDeleteAction)
+      - onDeleteOrder.indexOf(b.onDelete as OnDeleteAction),
+  )
+}
+
+/**
+ * Lists the tables a deletion of a model can write to, following the cascades.
+ * @param modelName - The class name of the deleted model
+ * @returns - The table names, including the model's one
+ * @internal
+ */
+export function _deleteTables(modelName: string): string[] {
+  const tables = new Set<string>()
+  const visit = (name: string) => {
+    const tableName = TablesMetadata[name]?.tableName || name
+    if (tables.has(tableName))
+      return
+    tables.add(tableName)
+
+    for (const relation of _getDependents(name)) {
+      if (relation.onDelete === 'cascade')
+        visit(relation.source.name)
+      else tables.add(TablesMetadata[relation.source.name].tableName)
+    }
+  }
+
+  visit(modelName)
+  return [...tables]
+}
+
+/**
+ * Applies the delete actions of the relations referencing an instance about to be deleted.
+ * @param instance - The deleted instance
+ * @param tx - The transaction of the deletion
+ * @throws {ModelError} If a restricting relation references the instance
+ * @internal
+ */
+export async function _applyOnDelete(
+  instance: Model,
+  tx: IDBTransaction,
+): Promise<void> {
+  const modelName = instance.constructor.name
+  const dependents = _getDependents(modelName)
+  if (!dependents.length)
+    return
+
+  const key = (instance as unknown as Record<string, unknown>)[
+    _referencedKey(modelName)
+  ] as IDBValidKey
+
+  for (const relation of dependents) {
+    const rows = await _request(
+      _objectStore(relation.source.name, tx).index(relation.foreignKey).getAll(key),
+    )
+
+    for (const row of rows) {
+      const dependent = _instantiate(relation.source, row)
+      // A row referencing itself is already being deleted
+      if (
+        dependent.constructor === instance.constructor
+        && _compareArrays(dependent.keys, instance.keys)
+      )
+        continue
+
+      if (relation.onDelete === 'restrict') {
+        throw new ModelError(
+          `${modelName} ${JSON.stringify(key)} is referenced by ${
+            TablesMetadata[relation.source.name].tableName
+          } ${JSON.stringify(dependent.keys)}`,
+        )
+      }
+
+      if (relation.onDelete === 'setNull') {
+        const values = dependent as unknown as Record<string, unknown>
+        values[relation.foreignKey] = null
+        await dependent.save(tx)
+      }
+      else {
+        await dependent.delete(tx)
+      }
+    }
+  }
+}
+
+/**
+ * Describes a many-to-many relation with another model, through a join table.
+ * The join table is registered automatically: its compound primary key references both sides,
+ * which are indexed and deleted in cascade.
+ * It is named after both models in alphabetical order (eg. `DocumentTag`), or with the `through` option;
+ * declaring the relation on the other side with the same join table makes it available there too.
+ *
+ * The property gives access to a {@link ManyToManyRelation}, whose operations run in a single transaction spanning the three tables.
+ * Both models need a single primary key.
+ *
+ * @param target - The related model, lazily to allow circular references
+ * @param options - The options of the relation
+ *
+ * @example
+ * ```ts
+ * class Document extends Model {
+ *   @Field({ primaryKey: true })
+ *   id: number
+ *   @ManyToMany(() => Tag)
+ *   tags!: ManyToManyRelation<Tag>
+ * }
+ *
+ * class Tag extends Model {
+ *   @Field({ primaryKey: true })
+ *   name: string
+ *   // The other side of the same relation, through `DocumentTag`
+ *   @ManyToMany(() => Document)
+ *   documents!: ManyToManyRelation<Document>
+ * }
+ *
+ * await doc.tags.add([urgent, draft])
+ * await doc.tags.remove(draft)
+ * const tags = await doc.tags.list()
+ * ```
+ */
+export function ManyToMany<T extends Model>(
+  target: ModelReference<T>,
+  options: ManyToManyOptions = {},
+): PropertyDecorator {
+  return function (object, propertyName) {
+    if (typeof propertyName === 'symbol')
+      throw new WormError('ManyToMany decorator doesn\'t support symbols')
+
+    const source = object.constructor as Relation['source']
+    _handleTableData(object)
+
+    let joinTable: JoinTable | undefined
+    const resolve = (): JoinTable => {
+      joinTable = joinTable || _registerJoinTable(source, target(), options.through)
+      return joinTable
+    }
+    _addPendingDeclaration(resolve)
+
+    Object.defineProperty(object, propertyName, {
+      get(this: Model) {
+        return new ManyToManyRelation(this, target(), resolve())
+      },
+      configurable: true,
+    })
+  }
+}
+
+/**
+ * The join tables registered by {@link ManyToMany}, by name.
+ * @internal
+ */
+const joinTables: Record<string, { model: Relation['source']; keys: Record<string, string> }> = {}
+
+/**
+ * Registers the join table of a many-to-many relation, or finds the one registered by the other side.
+ * @param source - The model declaring the relation
+ * @param target - The related model
+ * @param through - The name of the join table
+ * @returns - The join table, seen from the source
+ * @throws {ModelError} If the name is already used by another table
+ * @internal
+ */
+function _registerJoinTable(
+  source: Relation['source'],
+  target: Relation['source'],
+  through?: string,
+): JoinTable {
+  if (source.name === target.name)
+    throw new ModelError(`Many-to-many relations need two different models, got ${source.name} twice`)
+
+  const name = through || [source.name, target.name].sort().join('')
+  if (!(name in TablesMetadata)) {
+    const JoinModel = class extends Model {}
+    Object.defineProperty(JoinModel, 'name', { value: name })
+
+    const keys = {
+      [source.name]: `${_lowerFirst(source.name)}Id`,
+      [target.name]: `${_lowerFirst(target.name)}Id`,
+    }
+    for (const model of [source, target]) {
+      ForeignKey(() => model, { primaryKey: true, onDelete: 'cascade' })(
+        JoinModel.prototype,
+        keys[model.name],
+      )
+    }
+    _overrideTableData(JoinModel.prototype, {
+      database: TablesMetadata[source.name]?.database,
+    })
+
+    joinTables[name] = { model: JoinModel, keys }
+  }
+
+  const joinTable = joinTables[name]
+  if (
+    !joinTable
+    || joinTable.model.name !== name
+    || !(source.name in joinTable.keys && target.name in joinTable.keys)
+  )
+    throw new ModelError(`Table ${name} is already defined`)
+
+  return {
+    model: joinTable.model,
+    sourceKey: joinTable.keys[source.name],
+    targetKey: joinTable.keys[target.name],
+  }
+}
+
+/**
+ * Lowercases the first letter of a string.
+ * @param str - The string
+ * @returns - The string starting with a lowercase letter
+ * @internal
+ */
+function _lowerFirst(str: string): string {
+  return str.charAt(0).toLowerCase() + str.slice(1)
+}
+
+/**
+ * Wraps a request into a promise.
+ * @param request - The request
+ * @returns - A promise resolving to the result of the request
+ * @internal
+ */
+function _request<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onerror = (_) => {
+      reject(request.error)
+    }
+    request.onsuccess = (_) => {
+      resolve(request.result)
+    }
+  })
+}
+
+export class ManyToManyRelation<T extends Model> {
+  /**
+   * The instances related to a model instance through a {@link ManyToMany} relation.
+   * All the operations run in a single transaction spanning both models and the join table,
+   * unless one is provided.
+   *
+   * @typeParam T - The related model
+   * @param instance - The instance the relation starts from
+   * @param target - The related model
+   * @param joinTable - The join table of the relation
+   */
+  public constructor(
+    private instance: Model,
+    private target: { new (): T },
+    private joinTable: JoinTable,
+  ) {}
+
+  /**
+   * The models used by the operations, to include them in a {@link Transaction}.
+   */
+  public get models(): Constructor<Model>[] {
+    return [
+      this.instance.constructor as Constructor<Model>,
+      this.joinTable.model,
+      this.target,
+    ]
+  }
+
+  /**
+   * Get the related instances.
+   * @returns - The related instances
+   */
+  public async list(tx?: IDBTransaction): Promise<T[]> {
+    return this._run('readonly', async (tx) => {
+      const links = await _request(
+        _objectStore(this.joinTable.model.name, tx)
+          .index(this.joinTable.sourceKey)
+          .getAll(this._key(this.instance)),
+      )
+
+      const store = _objectStore(this.target.name, tx)
+      const rows = await Promise.all(
+        links.map(link =>
+          _request<unknown>(
+            store.get(
+              _toStoreKey(this.target.name, [
+                (link as Record<string, IDBValidKey>)[this.joinTable.targetKey],
+              ]),
+            ),
+          ),
+        ),
+      )
+
+      return rows
+        .filter(row => row !== undefined)
+        .map(row => _instantiate(this.target, row))
+    }, tx)
+  }
+
+  /**
+   * Relate some instances, the ones already related are ignored.
+   * @param targets - The instances to relate
+   * @throws {ModelError} If one of the instances doesn't exist
+   */
+  public async add(targets: T | T[], tx?: IDBTransaction): Promise<void> {
+    return this._run('readwrite', async (tx) => {
+      await this._assertExist(targets, tx)
+      await this._link(targets, tx)
+    }, tx)
+  }
+
+  /**
+   * Unrelate some instances, the ones that aren't related are ignored.
+   * @param targets - The instances to unrelate
+   */
+  public async remove(targets: T | T[], tx?: IDBTransaction): Promise<void> {
+    return this._run('readwrite', async (tx) => {
+      const store = _objectStore(this.joinTable.model.name, tx)
+      const links = _asArray(targets).map(target => this._linkKey(target))
+      await Promise.all(links.map(link => _request(store.delete(link))))
+      _recordChange(tx, { table: store.name, type: 'delete', keys: links })
+    }, tx)
+  }
+
+  /**
+   * Replace the related instances.
+   * @param targets - The instances to relate, the other ones are unrelated
+   * @throws {ModelError} If one of the instances doesn't exist
+   */
+  public async set(targets: T | T[], tx?: IDBTransaction): Promise<void> {
+    return this._run('readwrite', async (tx) => {
+      await this._assertExist(targets, tx)
+
+      const store = _objectStore(this.joinTable.model.name, tx)
+      const links = await _request(
+        store.index(this.joinTable.sourceKey).getAllKeys(this._key(this.instance)),
+      )
+      await Promise.all(links.map(link => _request(store.delete(link))))
+      _recordChange(tx, { table: store.name, type: 'delete', keys: links })
+      await this._link(targets, tx)
+    }, tx)
+  }
+
+  /**
+   * Runs an operation in the provided transaction, or in a new one spanning the three tables.
+   * @param mode - The transaction mode
+   * @param operation - The operation
+   * @param tx - The provided transaction
+   * @returns - The result of the operation
+   */
+  private async _run<R>(
+    mode: IDBTransactionMode,
+    operation: (tx: IDBTransaction) => Promise<R>,
+    tx?: IDBTransaction,
+  ): Promise<R> {
+    if (tx)
+      return operation(tx)
+    return Transaction(mode, this.models, operation)
+  }
+
+  /**
+   * Adds the rows of the join table relating some instances.
+   * @param targets - The instances to relate
+   * @param tx - The transaction to use
+   */
+  private async _link(targets: T | T[], tx: IDBTransaction): Promise<void> {
+    const store = _objectStore(this.joinTable.model.name, tx)
+    const links = await Promise.all(
+      _asArray(targets).map(target =>
+        _request(
+          store.put({
+            [this.joinTable.sourceKey]: this._key(this.instance),
+            [this.joinTable.targetKey]: this._key(target),
+          }),
+        ),
+      ),
+    )
+    _recordChange(tx, { table: store.name, type: 'update', keys: links })
+  }
+
+  /**
+   * Checks that the instance and some related instances exist.
+   * @param targets - The related instances
+   * @param tx - The transaction to use
+   * @throws {ModelError} If one of them doesn't exist
+   */
+  private async _assertExist(targets: T | T[], tx: IDBTransaction): Promise<void> {
+    await Promise.all(
+      [this.instance, ..._asArray(targets)].map(async (instance) => {
+        const modelName = instance.constructor.name
+        const key = this._key(instance)
+        const count = await _request(
+          _objectStore(modelName, tx).count(_toStoreKey(modelName, [key])),
+        )
+        if (!count)
+          throw new ModelError(`${modelName} ${JSON.stringify(key)} doesn't exist`)
+      }),
+    )
+  }
+
+  /**
+   * Get the primary key of the join table row relating the instance to a related instance.
+   * Its fields are in the order of the side that registered the join table.
+   * @param target - The related instance
+   * @returns - The primary key of the row
+   */
+  private _linkKey(target: T): IDBValidKey[] {
+    const link: Record<string, IDBValidKey> = {
+      [this.joinTable.sourceKey]: this._key(this.instance),
+      [this.joinTable.targetKey]: this._key(target),
+    }
+    return getPrimaryKeys(this.joinTable.model.name).map(field => link[field])
+  }
+
+  /**
+   * Get the value referenced by the join table for an instance.
+   * @param instance - The instance
+   * @returns - The value of its primary key
+   */
+  private _key(instance: Model): IDBValidKey {
+    const field = _referencedKey(instance.constructor.name)
+    return (instance as unknown as Record<string, IDBValidKey>)[field]
+  }
+}
+
+/**
+ * Wraps a value into an array, if it isn't one already.
+ * @param value - The value or array of values
+ * @returns - The array of values
+ * @internal
+ */
+function _asArray<V>(value: V | V[]): V[] {
+  return Array.isArray(value) ? value : [value]
+}
@@ -0,0 +1,256 @@
+import type { Model } from './models'
+import type { QueryFilter } from './types'
+import {
+  TablesMetadata,
+  _getAutoIncrementKey,
+  _getRelationNames,
+  getPrimaryKeys,
+} from './metadata'
+import { NotFilter, OrFilter, _conditionToDB } from './filters'
+
+/**
+ * Applies the transformers of a model's fields to some values.
+ * @param modelName - The class name of the model
+ * @param values - The values to transform
+ * @param direction - Whether the values are written or read
+ * @returns - A transformed copy of the values, or the values themselves if there's no transformer
+ * @internal
+ */
+function _transform(
+  modelName: string,
+  values: object,
+  direction: 'toDB' | 'fromDB',
+): object {
+  const tableFields = TablesMetadata[modelName]?.fields || {}
+  const record = values as Record<string, unknown>
+  let transformed: Record<string, unknown> | undefined
+
+  for (const field in tableFields) {
+    const transformer = tableFields[field].transformer
+    const value = record[field]
+    if (!transformer || value === undefined || value === null)
+      continue
+
+    transformed = transformed || { ...record }
+    transformed[field] = transformer[direction](value)
+  }
+
+  return transformed || values
+}
+
+/**
+ * Converts some values of a model to what is stored in the database.
+ * The loaded relations are left out.
+ * @param modelName - The class name of the model
+ * @param values - The values to convert, they aren't modified
+ * @returns - The values to store
+ * @internal
+ */
+export function _toDB(modelName: string, values: object): object {
+  const record = _transform(modelName, values, 'toDB')
+  const relations = _getRelationNames(modelName).filter(name => name in record)
+  if (!relations.length)
+    return record
+
+  const stored: Record<string, unknown> = { ...record }
+  for (const name of relations)
+    delete stored[name]
+  return stored
+}
+
+/**
+ * Converts a stored row of a model to its values.
+ * @param modelName - The class name of the model
+ * @param record - The stored row, it isn't modified
+ * @returns - The values of the model
+ * @internal
+ */
+export function _fromDB(modelName: string, record: object): object {
+  return _transform(modelName, record, 'fromDB')
+}
+
+/**
+ * Converts a filter of a model to be checked against its stored rows and indexes.
+ * The values of the fields with a transformer are converted, the other ones are kept as is.
+ * @param modelName - The class name of the model
+ * @param filter - The filter, it isn't modified
+ * @returns - The converted filter, or the filter itself if there's no transformer
+ * @internal
+ */
+export function _filterToDB<T extends Model>(
+  modelName: string,
+  filter: QueryFilter<T>,
+): QueryFilter<T> {
+  if (filter instanceof OrFilter)
+    return new OrFilter(filter.conditions.map(condition => _filterToDB(modelName, condition)))
+  if (filter instanceof NotFilter)
+    return new NotFilter(_filterToDB(modelName, filter.condition))
+
+  const tableFields = TablesMetadata[modelName]?.fields || {}
+  const record = filter as Record<string, unknown>
+  let converted: Record<string, unknown> | undefined
+
+  for (const field in record) {
+    const transformer = tableFields[field]?.transformer
+    if (!transformer)
+      continue
+
+    converted = converted || { ...record }
+    converted[field] = _conditionToDB(record[field], transformer)
+  }
+
+  return (converted || filter) as QueryFilter<T>
+}
+
+/**
+ * Applies the transformers of a model's primary key fields to a key.
+ * @param modelName - The class name of the model
+ * @param keys - The values of the primary key fields
+ * @param direction - Whether the key is written or read
+ * @returns - The transformed key
+ * @internal
+ */
+function _transformKey(
+  modelName: string,
+  keys: IDBValidKey[],
+  direction: 'toDB' | 'fromDB',
+): IDBValidKey[] {
+  const tableFields = TablesMetadata[modelName]?.fields || {}
+  const primaryKeys = getPrimaryKeys(modelName)
+
+  return keys.map((key, i) => {
+    const transformer = tableFields[primaryKeys[i]]?.transformer
+    if (!transformer || key === undefined || key === null)
+      return key
+    return transformer[direction](key) as IDBValidKey
+  })
+}
+
+/**
+ * Converts the values of a model's primary key fields to the key used by its object store.
+ * Auto-incremented tables use a scalar key, the other ones an array.
+ * @param modelName - The class name of the model
+ * @param keys - The values of the primary key fields
+ * @returns - The key of the object store
+ * @internal
+ */
+export function _toStoreKey(
+  modelName: string,
+  keys: IDBValidKey[],
+): IDBValidKey {
+  const storeKey = _transformKey(modelName, keys, 'toDB')
+  return _getAutoIncrementKey(modelName) ? storeKey[0] : storeKey
+}
+
+/**
+ * Converts a key of a model's object store to the values of its primary key fields.
+ * @param modelName - The class name of the model
+ * @param storeKey - The key of the object store
+ * @returns - The values of the primary key fields
+ * @internal
+ */
+export function _fromStoreKey(
+  modelName: string,
+  storeKey: IDBValidKey,
+): IDBValidKey[] {
+  const keys = _getAutoIncrementKey(modelName)
+    ? [storeKey]
+    : (storeKey as IDBValidKey[])
+  return _transformKey(modelName, keys, 'fromDB')
+}
+
+/**
+ * Creates a model instance from a stored row.
+ * @param TargetModel - The model to instantiate
+ * @param record - The stored row
+ * @returns - The model instance
+ * @internal
+ */
+export function _instantiate<T extends Model>(
+  TargetModel: { new (): T },
+  record: unknown,
+): T {
+  const instance = new TargetModel()
+  Object.assign(instance, _fromDB(TargetModel.name, record as object))
+  _snapshot(instance, record as object)
+  return instance
+}
+
+/** The stored values of each instance, as last read or written */
+const snapshots = new WeakMap<Model, Record<string, unknown>>()
+
+/**
+ * Remembers the stored values of an instance, its changes being compared to them.
+ * @param instance - The model instance
+ * @param record - The stored row, computed from the instance if not provided
+ * @internal
+ */
+export function _snapshot(instance: Model, record?: object): void {
+  const stored = record || _toDB(instance.constructor.name, instance)
+  snapshots.set(instance, structuredClone({ ...stored }))
+}
+
+/**
+ * Compares two stored values, recursively.
+ * @param a - The first value
+ * @param b - The second value
+ * @returns - Whether they hold the same data
+ */
+function _sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b))
+    return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null)
+    return false
+  if (a.constructor !== b.constructor)
+    return false
+
+  if (a instanceof Date)
+    return a.getTime() === (b as Date).getTime()
+  if (a instanceof ArrayBuffer || ArrayBuffer.isView(a)) {
+    const bytes = (value: object) => ArrayBuffer.isView(value)
+      ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+      : new Uint8Array(value as ArrayBuffer)
+    return _sameValue([...bytes(a)], [...bytes(b)])
+  }
+  if (a instanceof Map || a instanceof Set)
+    return _sameValue([...a], [...(b as Map<unknown, unknown> | Set<unknown>)])
+
+  const first = a as Record<string, unknown>
+  const second = b as Record<string, unknown>
+  const keys = Object.keys(first)
+  return keys.length === Object.keys(second).length
+    && keys.every(key => key in second && _sameValue(first[key], second[key]))
+}
+
+/**
+ * Lists the fields of an instance changed since it was read or written.
+ * Every field with a value is changed for an instance that wasn't.
+ * @param instance - The model instance
+ * @returns - The names of the changed fields
+ * @internal
+ */
+export function _changedFields(instance: Model): string[] {
+  const snapshot = snapshots.get(instance)
+  const values = _toDB(instance.constructor.name, instance) as Record<string, unknown>
+  if (!snapshot)
+    return Object.keys(values).filter(field => values[field] !== undefined)
+
+  const fields = new Set([...Object.keys(snapshot), ...Object.keys(values)])
+  return [...fields].filter(field => !_sameValue(values[field], snapshot[field]))
+}
+
+/**
+ * Gets the value of a field when an instance was last read or written.
+ * @param instance - The model instance
+ * @param field - The field
+ * @returns - The value, undefined for an instance that wasn't
+ * @internal
+ */
+export function _previousValue(instance: Model, field: string): unknown {
+  const snapshot = snapshots.get(instance)
+  if (!snapshot || !(field in snapshot))
+    return undefined
+
+  const record = { [field]: structuredClone(snapshot[field]) }
+  return (_fromDB(instance.constructor.name, record) as Record<string, unknown>)[field]
+}
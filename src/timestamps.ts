@@ -0,0 +1,45 @@
+import { TablesMetadata } from './metadata'
+
+/** The clock of the timestamp fields */
+let clock: () => Date = () => new Date()
+
+/**
+ * Replaces the clock filling the {@link CreatedAt} and {@link UpdatedAt} fields, eg. to freeze the time in tests.
+ * @param newClock - Returns the current date, the system clock if not provided
+ *
+ * @example
+ * ```ts
+ * setClock(() => new Date('2024-01-01'))
+ * const user = await User.create({ name: 'John' })
+ * // Back to the system clock
+ * setClock()
+ * ```
+ */
+export function setClock(newClock?: () => Date): void {
+  clock = newClock || (() => new Date())
+}
+
+/**
+ * Fills the timestamp fields of a model's values before they are written.
+ * A new row gets both timestamps unless they are set, an updated one always gets a new `updatedAt`.
+ * @param modelName - The class name of the model
+ * @param values - The values to write, they are modified
+ * @param created - Whether the row is new
+ * @internal
+ */
+export function _touchTimestamps(
+  modelName: string,
+  values: object,
+  created: boolean,
+): void {
+  const fields = TablesMetadata[modelName]?.fields || {}
+  const record = values as Record<string, unknown>
+  const now = clock().getTime()
+
+  for (const [field, fieldOpts] of Object.entries(fields)) {
+    if (!fieldOpts.timestamp)
+      continue
+    if (created ? record[field] === undefined : fieldOpts.timestamp === 'updated')
+      record[field] = new Date(now)
+  }
+}
@@ -1,5 +1,7 @@
 import type {
+  ConnectedDB,
   Constructor,
+  Database,
   TransactionCallback,
   TransactionOrMode,
 } from './types'
@@ -8,42 +10,86 @@ import { ConnectionError, WormError } from './errors'
 import type { Model } from './models'
 import { TablesMetadata } from './metadata'
 
+/**
+ * Utility function to find the database a model should use.
+ * An explicit database takes precedence over the model's binding, which takes precedence over the global one.
+ * @param modelName - The class name of the model
+ * @param database - An explicit database to use
+ * @returns {ConnectedDB} - The connected database
+ * @throws {ConnectionError} If the database isn't connected
+ * @internal
+ */
+export function _getDatabase(
+  modelName?: string,
+  database?: Database,
+): ConnectedDB {
+  const target
+    = database
+    || (modelName !== undefined && TablesMetadata[modelName]?.database)
+    || db
+
+  if (!target.connected)
+    throw new ConnectionError('Database is not connected')
+  return target
+}
+
 export function _objectStore(
   storeName: string,
   tx?: IDBTransaction,
+  database?: Database,
 ): IDBObjectStore
 export function _objectStore(
   storeName: string,
   mode?: IDBTransactionMode,
+  database?: Database,
 ): IDBObjectStore
 export function _objectStore(
   storeName: string,
   txOrMode?: TransactionOrMode,
+  database?: Database,
 ): IDBObjectStore
 
 /**
- * Utility function to get an object store from the global database connection
+ * Utility function to get an object store from the model's database connection
  * @param storeName The name of the object store
  * @param mode The transaction mode
+ * @param database The database to use, defaults to the model's one
  * @returns { IDBObjectStore } - The object store
  * @internal
  */
 export function _objectStore(
   storeName: string,
   txOrMode?: TransactionOrMode,
+  database?: Database,
 ): IDBObjectStore {
+  const modelName = storeName
   if (storeName in TablesMetadata)
     storeName = TablesMetadata[storeName].tableName
 
-  if (!db.connected)
-    throw new ConnectionError('Database is not connected')
-  if (txOrMode instanceof IDBTransaction) {
+  // A transaction already belongs to a database
+  if (txOrMode instanceof IDBTransaction)
     return txOrMode.objectStore(storeName)
-  }
-  else {
-    const mode = txOrMode || 'readonly'
-    return db.session.transaction(storeName, mode).objectStore(storeName)
-  }
+
+  const mode = txOrMode || 'readonly'
+  return _getDatabase(modelName, database)
+    .session.transaction(storeName, mode)
+    .objectStore(storeName)
+}
+
+/**
+ * Utility function to start a transaction spanning several tables of a model's database.
+ * @param modelName - The class name of the model, used to find the database
+ * @param tables - The names of the tables
+ * @param mode - The transaction mode
+ * @returns { IDBTransaction } - The transaction
+ * @internal
+ */
+export function _transaction(
+  modelName: string,
+  tables: string[],
+  mode: IDBTransactionMode,
+): IDBTransaction {
+  return _getDatabase(modelName).session.transaction(tables, mode)
 }
 
 /**
@@ -69,21 +115,38 @@ export function _objectStore(
  * })
  * ```
  *
+ * The transaction runs on the database the models are bound to, or the global one.
+ * Another database can be provided explicitly, which allows using unbound models on it.
+ *
  * @param mode - The transaction mode
  * @param models - The models to use in the transaction
  * @param transactionCallback - The callback to execute in the transaction
+ * @param database - The database to use, defaults to the models' one
  * @returns - The result of the transactionCallback
  */
 export async function Transaction<T>(
   mode: IDBTransactionMode,
   models: Constructor<Model>[],
   transactionCallback: TransactionCallback<T>,
+  database?: Database,
 ): Promise<T> {
-  if (!db.connected)
-    throw new ConnectionError('Database is not connected')
-  const stores = models.map(model => model.name)
+  if (!database) {
+    const bound = new Set(
+      models.map(model => TablesMetadata[model.name]?.database || db),
+    )
+    if (bound.size > 1)
+      throw new WormError('The models of a transaction must share a database')
+    database = bound.values().next().value as Database | undefined
+  }
+
+  const connectedDB = _getDatabase(undefined, database)
+  const stores = models.map(model =>
+    model.name in TablesMetadata
+      ? TablesMetadata[model.name].tableName
+      : model.name,
+  )
 
-  const transaction = db.session.transaction(stores, mode)
+  const transaction = connectedDB.session.transaction(stores, mode)
   const transactionPromise = new Promise<void>((resolve, reject) => {
     transaction.oncomplete = () => resolve()
     transaction.onerror = () => reject(transaction.error)
@@ -3,7 +3,8 @@
  */
 import type { Model } from './models'
 import type { MigrationContext } from './migration'
-import type { BetweenFilter } from './query'
+import type { FieldFilter, NotFilter, OrFilter } from './filters'
+import type { Aggregate } from './aggregates'
 
 export type DisconnectedDB = {
   connected: false
@@ -19,9 +20,79 @@ export type ConnectedDB = {
 /** { @inheritDoc W-ORM.db } */
 export type DB = DisconnectedDB | ConnectedDB
 
+/**
+ * A database handle, the global {@link W-ORM.db} is the default one.
+ * New handles can be obtained with {@link W-ORM.createDatabase}.
+ */
+export type Database = DB
+
+/** Emitted when a connection request is blocked by other open connections */
+export type BlockedEvent = {
+  /** The database name */
+  name: string
+  oldVersion: number
+  /** The requested version, null when the database is being deleted */
+  newVersion: number | null
+}
+
+/** Emitted when another connection wants to upgrade or delete the database */
+export type VersionChangeEvent = BlockedEvent & {
+  /** Whether the connection was closed to let the other one proceed */
+  closed: boolean
+}
+
+export type BlockedOptions = {
+  /** Called when other open connections block the request */
+  onBlocked?: (event: BlockedEvent) => void
+  /** Milliseconds to wait once blocked before failing with a {@link Errors.ConnectionError} */
+  blockedTimeout?: number
+}
+
+export type InitOptions = BlockedOptions & {
+  /** The handle to connect, defaults to the global {@link W-ORM.db} */
+  database?: Database
+  /** Close this connection when another one wants to upgrade or delete the database */
+  closeOnVersionChange?: boolean
+  /** Called when another connection wants to upgrade or delete the database */
+  onVersionChange?: (event: VersionChangeEvent) => void
+  /** Share the committed changes with the other tabs, see {@link BroadcastOptions} */
+  broadcast?: boolean | BroadcastOptions
+}
+
+/** The channel the changes are shared on, a `BroadcastChannel` or a stand-in */
+export type ChangeChannel = {
+  postMessage: (message: TableChange) => void
+  onmessage: ((event: MessageEvent) => void) | null
+  close: () => void
+}
+
+/**
+ * Shares the changes committed through a connection on a channel named after the database,
+ * the other tabs receiving them with {@link W-ORM.Model.onRemoteChange} and their live queries.
+ */
+export type BroadcastOptions = {
+  /** Creates the channel, defaults to the global `BroadcastChannel` */
+  channel?: (name: string) => ChangeChannel
+}
+
+export type AutoVersionOptions = InitOptions & {
+  /** Bump the version automatically when the declared tables change */
+  autoVersion: true
+  /** A list of migrations to be applied, the keys being the bumped versions */
+  migrations?: MigrationList
+}
+
+/** The schema hash stored in the database by `autoVersion` */
+export type SchemaRecord = {
+  hash: string
+  version: number
+}
+
 export type InitResponse = {
   session: IDBDatabase
   upgraded: boolean
+  /** The handle that was connected */
+  db: Database
 }
 
 /** {@inheritDoc W-ORM.Field } */
@@ -30,8 +101,54 @@ export type FieldOptions<T> = {
   unique: boolean
   nullable: boolean
   default?: T | (() => T)
-  type: () => T
+  type: (() => T) | Constructor<T>
   index: boolean
+  autoIncrement?: boolean
+  version?: boolean
+  /** Set by {@link W-ORM.CreatedAt} and {@link W-ORM.UpdatedAt} */
+  timestamp?: 'created' | 'updated'
+  transformer?: FieldTransformer<T>
+} & FieldValidators<T>
+
+/**
+ * Converts a field's value to and from what is stored in the database.
+ * It is skipped when the value is `null` or `undefined`.
+ */
+export type FieldTransformer<T> = {
+  /** Converts the value before it is written */
+  toDB(value: T): unknown
+  /** Converts the stored value after it is read */
+  fromDB(value: unknown): T
+}
+
+/**
+ * Declarative validators of a field, see {@link W-ORM.Field}.
+ * They are skipped when the value is `null` or `undefined`.
+ */
+export type FieldValidators<T> = {
+  /** Minimum value of a number or a date */
+  min?: number | Date
+  /** Maximum value of a number or a date */
+  max?: number | Date
+  /** Minimum length of a string or an array */
+  minLength?: number
+  /** Maximum length of a string or an array */
+  maxLength?: number
+  /** Pattern a string has to match */
+  pattern?: RegExp
+  /** List of allowed values */
+  enum?: readonly T[]
+  /** Custom predicate, it can return an error message instead of `false` */
+  validate?(value: T): boolean | string
+}
+
+export type ValidationRule = keyof FieldValidators<unknown>
+
+/** A failed validation, see {@link Errors.ValidationError} */
+export type ValidationIssue = {
+  field: string
+  rule: ValidationRule
+  message: string
 }
 
 /** {@inheritDoc W-ORM.TablesMetadata } */
@@ -42,6 +159,99 @@ export type TableMetadata = {
   hasChild: boolean
   tableName: string
   indexes: ParsedIndexes
+  database?: Database
+  hooks: TableHooks
+  strict?: boolean | 'coerce'
+  relations: TableRelations
+}
+
+/** A lazy reference to a model, which allows circular relations */
+export type ModelReference<T extends Model = Model> = () => { new (): T }
+
+/** {@inheritDoc W-ORM.ManyToMany } */
+export type ManyToManyOptions = {
+  /** Name of the join table, defaults to the names of both models in alphabetical order */
+  through?: string
+}
+
+/** A join table registered by {@link W-ORM.ManyToMany}, seen from one of its sides */
+export type JoinTable = {
+  /** The model of the join table */
+  model: { new (): Model }
+  /** The field referencing this side */
+  sourceKey: string
+  /** The field referencing the other side */
+  targetKey: string
+}
+
+/** {@inheritDoc W-ORM.ForeignKey } */
+export type ForeignKeyOptions<T> = Partial<FieldOptions<T>> & {
+  /** Name of the relation, defaults to the field's name without its `Id` suffix */
+  as?: string
+  /** Name of the inverse relation on the referenced model, needed to include it from there */
+  related?: string
+  /** What happens to the referencing rows when the referenced one is deleted, nothing by default */
+  onDelete?: OnDeleteAction
+}
+
+/**
+ * What happens to the referencing rows when the referenced one is deleted:
+ *  - `cascade`: They are deleted too.
+ *  - `setNull`: Their foreign key is set to null, it has to be nullable.
+ *  - `restrict`: The deletion fails with a {@link Errors.ModelError}.
+ */
+export type OnDeleteAction = 'cascade' | 'setNull' | 'restrict'
+
+/** A relation declared by a {@link W-ORM.ForeignKey} */
+export type Relation = {
+  /** The model declaring the foreign key */
+  source: { new (): Model }
+  /** The referenced model */
+  target: ModelReference
+  /** The foreign key field */
+  foreignKey: string
+  /** Name of the inverse relation on the referenced model */
+  related?: string
+  /** What happens when the referenced row is deleted */
+  onDelete?: OnDeleteAction
+}
+
+/** The relations of a table, by name */
+export type TableRelations = Record<string, Relation>
+
+/** A relation seen from one of its sides, see {@link W-ORM.Query.include} */
+export type ResolvedRelation = {
+  /** `belongsTo` from the model declaring the foreign key, `hasMany` from the referenced one */
+  kind: 'belongsTo' | 'hasMany'
+  /** The model on the other side */
+  model: { new (): Model }
+  /** The foreign key field */
+  foreignKey: string
+}
+
+/** {@inheritDoc W-ORM.Hook } */
+export type InstanceHookEvent =
+  | 'beforeCreate'
+  | 'afterCreate'
+  | 'beforeSave'
+  | 'afterSave'
+  | 'beforeDelete'
+  | 'afterDelete'
+
+/** {@inheritDoc W-ORM.Hook } */
+export type BulkHookEvent =
+  | 'beforeBulkUpdate'
+  | 'afterBulkUpdate'
+  | 'beforeBulkDelete'
+  | 'afterBulkDelete'
+
+export type HookEvent = InstanceHookEvent | BulkHookEvent
+
+export type HookCallback = (...args: unknown[]) => void | Promise<void>
+
+/** The names of the methods decorated with {@link W-ORM.Hook}, by event */
+export type TableHooks = {
+  [event in HookEvent]?: string[]
 }
 
 /** {@inheritDoc W-ORM.TablesMetadata } */
@@ -53,23 +263,95 @@ export type TableFieldsMetadata = {
 export type ModelFields<T extends Model> = Omit<T, keyof Model>
 export type ModelFieldKey<T extends Model> = string & keyof ModelFields<T>
 
+/** A condition on a field: a value to compare, a {@link W-ORM.FieldFilter} or a function */
+export type FieldCondition<V> =
+  | V
+  | FieldFilter<V>
+  | ((instance: V) => boolean)
+
 export type Filter<T extends Model> = {
-  [P in keyof T]?:
-  | T[P]
-  | BetweenFilter<T[P]>
-  | ((instance: T[P]) => boolean)
-  | undefined;
+  [P in keyof T]?: FieldCondition<T[P]> | undefined;
 }
 
-export type SimpleFilter<T extends Model> = {
-  key: ModelFieldKey<T>
-  value: unknown
+/** The filters of fields, which can be combined with {@link W-ORM.or} and {@link W-ORM.not} */
+export type QueryFilter<T extends Model> =
+  | Filter<T>
+  | OrFilter<QueryFilter<T>>
+  | NotFilter<QueryFilter<T>>
+
+/** How a query reads its rows, see {@link W-ORM.Query.explain} */
+export type QueryPlan<T extends Model> = {
+  /** The index the rows are read from, null for the table itself (by primary key) */
+  index: string | null
+  /** The key ranges read, a cursor being opened for each of them; null to read everything */
+  keyRanges: IDBKeyRange[] | null
+  direction: IDBCursorDirection
+  /** The filters checked on each row read, those the key ranges don't guarantee */
+  residualFilters: QueryFilter<T>[]
+  /** The amount of rows read, counted when the query uses estimates */
+  estimate?: number
+  /** The ordering applied in memory once all the rows are read, when the index doesn't provide it */
+  sort?: OrderBy<T>[]
+}
+
+/** A page of results, see {@link W-ORM.Query.paginate} */
+export type Page<T> = {
+  items: T[]
+  /** The cursor to read the next page with {@link W-ORM.Query.after}, null if it's the last page */
+  nextCursor: string | null
+  /** The cursor to read the previous page with {@link W-ORM.Query.before}, null if it's the first page */
+  prevCursor: string | null
 }
 
 export type OrderBy<T extends Model> =
   | ModelFieldKey<T>
   | `-${ModelFieldKey<T>}`
 
+/** Computes the result of an {@link W-ORM.Aggregate} over a group of rows */
+export type Accumulator<R> = {
+  /** Adds a row to the group, with the values of the model */
+  add: (row: Record<string, unknown>) => void
+  result: () => R
+}
+
+/** The aggregates computed by a query, by name */
+export type Aggregates = Record<string, Aggregate<unknown>>
+
+/** The results of some aggregates, by name */
+export type AggregateResults<A extends Aggregates> = {
+  [K in keyof A]: A[K] extends Aggregate<infer R> ? R : never
+}
+
+/**
+ * A write to a table.
+ * `update` covers the rows written over, which may be new when written by {@link W-ORM.importTable} or a {@link W-ORM.ManyToMany}.
+ */
+export type TableChange = {
+  table: string
+  type: 'create' | 'update' | 'delete' | 'clear'
+  /** The keys of the object store written, empty when clearing it */
+  keys: IDBValidKey[]
+}
+
+/**
+ * Receives the changes committed by a transaction, with the connection they were written through,
+ * or the changes broadcast by another tab for this connection when `remote` is true.
+ */
+export type ChangeListener = (
+  database: IDBDatabase,
+  changes: TableChange[],
+  remote: boolean,
+) => void
+
+/** Receives the new results of a query, see {@link W-ORM.Query.observe} */
+export type ObserveCallback<T> = (results: T[]) => void
+
+/** The callbacks of {@link W-ORM.Query.subscribe} */
+export type QueryObserver<T> = {
+  next: ObserveCallback<T>
+  error?: (error: unknown) => void
+}
+
 export type TransactionCallback<T> = (tx: IDBTransaction) => Promise<T>
 
 export type TransactionOrMode = IDBTransaction | IDBTransactionMode
@@ -79,6 +361,49 @@ export type CursorCallback = (
   tx: IDBTransaction,
 ) => Promise<boolean | void>
 
+/** The options of the bulk writes, like {@link W-ORM.Model.bulkCreate} */
+export type BulkOptions = {
+  /**
+   * Keep writing the other items when one fails, instead of failing atomically.
+   * The failed items are reported in {@link BulkResult.failed}.
+   */
+  continueOnError?: boolean
+}
+
+/** An item a bulk write failed on */
+export type BulkFailure = {
+  /** The position of the item in the written list */
+  index: number
+  error: unknown
+}
+
+/** The outcome of a bulk write */
+export type BulkResult<T> = {
+  /** The written instances, in the order of the items, null for the failed ones */
+  results: (T | null)[]
+  /** The failed items, only with `continueOnError` */
+  failed: BulkFailure[]
+}
+
+/** The options of {@link W-ORM.Model.save} */
+export type SaveOptions = {
+  /** Only write the fields changed since the instance was read or written, on top of the stored row */
+  onlyChanged?: boolean
+}
+
+/** The options of {@link W-ORM.Model.upsert} */
+export type UpsertOptions<T extends Model> = {
+  /** The fields identifying the existing row, the primary key or the fields of a unique index, the primary key by default */
+  conflictFields?: ModelFieldKey<T>[]
+}
+
+/** The outcome of {@link W-ORM.Model.getOrCreate} */
+export type GetOrCreateResult<T> = {
+  instance: T
+  /** Whether the instance was created */
+  created: boolean
+}
+
 export type ForEachCallback<T> = (
   instance: T,
   tx: IDBTransaction,
@@ -217,4 +542,11 @@ export type TableOptions = {
   name?: string
   abstract?: boolean
   indexes?: Indexes
+  /** The database the table is bound to, defaults to the global {@link W-ORM.db} */
+  database?: Database
+  /**
+   * Check that the values match the types of the fields on every write,
+   * `'coerce'` also converts numeric strings and ISO date strings.
+   */
+  strict?: boolean | 'coerce'
 }
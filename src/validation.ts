@@ -0,0 +1,212 @@
+import type {
+  FieldOptions,
+  ValidationIssue,
+  ValidationRule,
+} from './types'
+import { TablesMetadata } from './metadata'
+import { ModelError, ValidationError } from './errors'
+
+/** ISO 8601 dates, eg. `2023-05-01` or `2023-05-01T10:00:00.000Z` */
+const isoDateRegex = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+/**
+ * Runs the validators of a field on a value.
+ * @param field - The field's name
+ * @param options - The field's options
+ * @param value - The value to validate
+ * @returns - The failed validations
+ * @internal
+ */
+function _validateField(
+  field: string,
+  options: FieldOptions<unknown>,
+  value: unknown,
+): ValidationIssue[] {
+  if (value === undefined || value === null)
+    return []
+
+  const issues: ValidationIssue[] = []
+  const fail = (rule: ValidationRule, message: string) =>
+    issues.push({ field, rule, message })
+
+  const comparable = value as number | Date
+  if (options.min !== undefined && comparable < options.min)
+    fail('min', `must be at least ${String(options.min)}`)
+  if (options.max !== undefined && comparable > options.max)
+    fail('max', `must be at most ${String(options.max)}`)
+
+  if (typeof value === 'string' || Array.isArray(value)) {
+    if (options.minLength !== undefined && value.length < options.minLength)
+      fail('minLength', `must have a length of at least ${options.minLength}`)
+    if (options.maxLength !== undefined && value.length > options.maxLength)
+      fail('maxLength', `must have a length of at most ${options.maxLength}`)
+  }
+
+  if (
+    options.pattern
+    && (typeof value !== 'string' || !options.pattern.test(value))
+  )
+    fail('pattern', `must match ${String(options.pattern)}`)
+
+  if (options.enum && !options.enum.includes(value))
+    fail('enum', `must be one of ${options.enum.map(String).join(', ')}`)
+
+  if (options.validate) {
+    const result = options.validate(value)
+    if (result !== true)
+      fail('validate', result || 'is invalid')
+  }
+
+  return issues
+}
+
+/**
+ * Runs the validators of a model's fields on some values.
+ * @param modelName - The class name of the model
+ * @param values - The values to validate
+ * @param fields - The fields to validate, all of them by default
+ * @returns - The failed validations
+ */
+export function validateFields(
+  modelName: string,
+  values: object,
+  fields?: string[],
+): ValidationIssue[] {
+  const tableFields = TablesMetadata[modelName]?.fields || {}
+  const issues: ValidationIssue[] = []
+
+  for (const field of fields || Object.keys(tableFields)) {
+    if (!(field in tableFields))
+      continue
+
+    const value = (values as Record<string, unknown>)[field]
+    issues.push(..._validateField(field, tableFields[field], value))
+  }
+
+  return issues
+}
+
+/**
+ * Checks a value against the type of a field, see {@link Types.TableOptions.strict}.
+ * @param field - The field's name
+ * @param type - The field's type, as emitted by typescript
+ * @param value - The value to check
+ * @param coerce - Whether safe conversions are allowed
+ * @returns - The value, converted if needed
+ * @throws {ModelError} If the value doesn't match the type
+ * @internal
+ */
+function _checkType(
+  field: string,
+  type: unknown,
+  value: unknown,
+  coerce: boolean,
+): unknown {
+  if (value === undefined || value === null || type === Object)
+    return value
+
+  switch (type) {
+    case String:
+      if (typeof value === 'string')
+        return value
+      break
+    case Boolean:
+      if (typeof value === 'boolean')
+        return value
+      break
+    case Number:
+      if (typeof value === 'number' && Number.isFinite(value))
+        return value
+      if (coerce && typeof value === 'string' && value.trim() !== '') {
+        const number = Number(value)
+        if (Number.isFinite(number))
+          return number
+      }
+      break
+    case Date:
+      if (value instanceof Date && !isNaN(value.getTime()))
+        return value
+      if (coerce && typeof value === 'string' && isoDateRegex.test(value)) {
+        const date = new Date(value)
+        if (!isNaN(date.getTime()))
+          return date
+      }
+      break
+    case Array:
+      if (Array.isArray(value))
+        return value as unknown[]
+      break
+    default:
+      // Any other class, eg. Blob or Map
+      if (typeof type === 'function' && value instanceof type)
+        return value
+  }
+
+  const typeName = (type as { name?: string }).name || String(type)
+  throw new ModelError(
+    `Field ${field} should be a ${typeName}, got ${_describe(value)}`,
+  )
+}
+
+/**
+ * Describes the type of a value for error messages.
+ * @param value - The value to describe
+ * @returns - The constructor name, the typeof of primitive values, or the non-finite number itself
+ * @internal
+ */
+function _describe(value: unknown): string {
+  if (typeof value === 'number' && !Number.isFinite(value))
+    return String(value)
+  if (typeof value === 'object')
+    return (value as object).constructor?.name || 'object'
+  return typeof value
+}
+
+/**
+ * Checks some values against the types of a model's fields, if the model is strict.
+ * Coerced values are written back to the values.
+ * @param modelName - The class name of the model
+ * @param values - The values to check
+ * @param fields - The fields to check, all of them by default
+ * @throws {ModelError} If a value doesn't match its type
+ * @internal
+ */
+function _checkTypes(modelName: string, values: object, fields?: string[]) {
+  const metadata = TablesMetadata[modelName]
+  if (!metadata?.strict)
+    return
+
+  const record = values as Record<string, unknown>
+  for (const field of fields || Object.keys(metadata.fields)) {
+    if (!(field in metadata.fields) || !(field in record))
+      continue
+
+    record[field] = _checkType(
+      field,
+      metadata.fields[field].type,
+      record[field],
+      metadata.strict === 'coerce',
+    )
+  }
+}
+
+/**
+ * Checks the types of a model's fields if it's strict, then runs their validators.
+ * @param modelName - The class name of the model
+ * @param values - The values to validate, coerced values are written back to it
+ * @param fields - The fields to validate, all of them by default
+ * @throws {ModelError} If a value doesn't match its type
+ * @throws {ValidationError} If any validation fails
+ * @internal
+ */
+export function _assertValid(
+  modelName: string,
+  values: object,
+  fields?: string[],
+): void {
+  _checkTypes(modelName, values, fields)
+
+  const issues = validateFields(modelName, values, fields)
+  if (issues.length)
+    throw new ValidationError(issues)
+}
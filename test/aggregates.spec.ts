@@ -0,0 +1,128 @@
+import { assert, describe, it } from 'vitest'
+
+import { init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Model } from '../src/models'
+import { Between } from '../src/query'
+import { avg, count, max, min, sum } from '../src/aggregates'
+
+async function populate() {
+  class Order extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+
+    @Field()
+    category!: string
+
+    @Field({ index: false })
+    amount!: number
+
+    @Field({ index: false })
+    note?: string
+
+    @Field({
+      transformer: {
+        toDB: (value: number) => value * 100,
+        fromDB: (value: number) => value / 100,
+      },
+    })
+    price!: number
+  }
+
+  await init('test', 1)
+
+  await Order.create({ id: 1, category: 'food', amount: 10, price: 1, note: 'a' })
+  await Order.create({ id: 2, category: 'books', amount: 5, price: 3 })
+  await Order.create({ id: 3, category: 'food', amount: 20, price: 2 })
+  await Order.create({ id: 4, category: 'toys', amount: 30, price: 0.5, note: 'b' })
+
+  return Order
+}
+
+describe('Aggregates', () => {
+  it('should aggregate all the rows', async () => {
+    const Order = await populate()
+
+    const results = await Order.aggregate({
+      total: sum('amount'),
+      average: avg('amount'),
+      n: count(),
+      notes: count('note'),
+      smallest: min<number>('amount'),
+      largest: max<number>('amount'),
+    })
+    assert.deepEqual(results, {
+      total: 65,
+      average: 16.25,
+      n: 4,
+      notes: 2,
+      smallest: 5,
+      largest: 30,
+    })
+  })
+  it('should aggregate the results of a query', async () => {
+    const Order = await populate()
+
+    const results = await Order.filter({ amount: Between(10, 20) })
+      .aggregate({ total: sum('amount'), n: count(), last: max('category') })
+    assert.deepEqual(results, { total: 30, n: 2, last: 'food' })
+  })
+  it('should aggregate the rows after a cursor', async () => {
+    const Order = await populate()
+
+    const page = await Order.orderBy('price').paginate({ pageSize: 2 })
+    const results = await Order.orderBy('price')
+      .after(page.nextCursor as string)
+      .aggregate({ cheapest: min('price'), n: count() })
+    assert.deepEqual(results, { cheapest: 2, n: 2 })
+  })
+  it('should aggregate no rows', async () => {
+    const Order = await populate()
+
+    const results = await Order.filter({ category: 'none' })
+      .aggregate({ total: sum('amount'), average: avg('amount'), n: count(), smallest: min('amount') })
+    assert.deepEqual(results, { total: 0, average: null, n: 0, smallest: null })
+  })
+  it('should aggregate the values of the model', async () => {
+    const Order = await populate()
+
+    // The index holds the stored values
+    let results = await Order.aggregate({ smallest: min('price'), largest: max('price') })
+    assert.deepEqual(results, { smallest: 0.5, largest: 3 })
+
+    results = await Order.filter({ category: 'food' })
+      .aggregate({ smallest: min('price'), largest: max('price') })
+    assert.deepEqual(results, { smallest: 1, largest: 2 })
+    assert.deepEqual(await Order.aggregate({ total: sum('price') }), { total: 6.5 })
+  })
+  it('should group the rows', async () => {
+    const Order = await populate()
+
+    const groups = await Order.groupBy('category').aggregate({ total: sum('amount'), n: count() })
+    assert.deepEqual(groups, [
+      { category: 'food', total: 30, n: 2 },
+      { category: 'books', total: 5, n: 1 },
+      { category: 'toys', total: 30, n: 1 },
+    ])
+
+    const ordered = await Order.orderBy('category')
+      .groupBy('category')
+      .aggregate({ first: min('id') })
+    assert.deepEqual(ordered, [
+      { category: 'books', first: 2 },
+      { category: 'food', first: 1 },
+      { category: 'toys', first: 4 },
+    ])
+  })
+  it('should group the rows by several fields', async () => {
+    const Order = await populate()
+
+    const groups = await Order.filter({ category: 'food' })
+      .groupBy('category', 'note')
+      .aggregate({ n: count() })
+    assert.deepEqual(groups, [
+      { category: 'food', note: 'a', n: 1 },
+      { category: 'food', note: undefined, n: 1 },
+    ])
+  })
+})
@@ -0,0 +1,169 @@
+import { assert, describe, it } from 'vitest'
+
+import { disconnect, init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Model } from '../src/models'
+import { Transaction } from '../src/transaction'
+import type { ChangeChannel, TableChange } from '../src/types'
+import { settle } from './utils'
+
+/**
+ * A stand-in for `BroadcastChannel`, delivering the messages to the other channels of the same name.
+ */
+class LocalChannel implements ChangeChannel {
+  static channels = new Set<LocalChannel>()
+
+  onmessage: ((event: MessageEvent) => void) | null = null
+  received: TableChange[] = []
+
+  constructor(public name: string) {
+    LocalChannel.channels.add(this)
+  }
+
+  postMessage(message: TableChange) {
+    const data = structuredClone(message)
+    for (const channel of LocalChannel.channels) {
+      if (channel !== this && channel.name === this.name) {
+        setTimeout(() => {
+          channel.received.push(data)
+          channel.onmessage?.(new MessageEvent('message', { data }))
+        })
+      }
+    }
+  }
+
+  close() {
+    LocalChannel.channels.delete(this)
+  }
+}
+
+describe('Broadcast', () => {
+  it('should broadcast the committed changes', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+
+      @Field()
+      name!: string
+    }
+
+    await init('test', 1, {}, { broadcast: { channel: name => new LocalChannel(name) } })
+    // Another tab
+    const tab = new LocalChannel('test')
+
+    await Test.create({ id: 1, name: 'John' })
+    await Transaction('readwrite', [Test], async (tx) => {
+      await Test.create({ id: 2, name: 'Jane' }, tx)
+      await (await Test.get(1, tx))?.delete(tx)
+    })
+    try {
+      await Transaction('readwrite', [Test], async (tx) => {
+        await Test.create({ id: 3, name: 'Jack' }, tx)
+        throw new Error('rollback')
+      })
+    }
+    catch {
+      // Expected
+    }
+    await settle()
+
+    assert.deepEqual(tab.received, [
+      { table: 'Test', type: 'create', keys: [[1]] },
+      { table: 'Test', type: 'create', keys: [[2]] },
+      { table: 'Test', type: 'delete', keys: [[1]] },
+    ])
+    tab.close()
+  })
+  it('should notify the changes of the other tabs per model', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+
+      @Field()
+      name!: string
+    }
+
+    class Other extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    await init('test', 1, {}, { broadcast: { channel: name => new LocalChannel(name) } })
+    // Another tab
+    const tab = new LocalChannel('test')
+
+    const changes: TableChange[] = []
+    const stop = Test.onRemoteChange(change => changes.push(change))
+    let others = 0
+    const stopOther = Other.onRemoteChange(() => {
+      others += 1
+    })
+
+    tab.postMessage({ table: 'Test', type: 'update', keys: [[1], [2]] })
+    await settle()
+    assert.deepEqual(changes, [{ table: 'Test', type: 'update', keys: [[1], [2]] }])
+    assert.equal(others, 0)
+
+    // The local writes aren't remote changes
+    await Test.create({ id: 3, name: 'Jack' })
+    await settle()
+    assert.lengthOf(changes, 1)
+
+    stop()
+    stopOther()
+    tab.postMessage({ table: 'Test', type: 'clear', keys: [] })
+    await settle()
+    assert.lengthOf(changes, 1)
+    tab.close()
+  })
+  it('should run the live queries again on the changes of the other tabs', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+
+      @Field()
+      name!: string
+    }
+
+    await init('test', 1, {}, { broadcast: { channel: name => new LocalChannel(name) } })
+    // Another tab
+    const tab = new LocalChannel('test')
+
+    const calls: number[][] = []
+    Test.filter({}).observe((tests) => {
+      calls.push(tests.map(t => t.id))
+    })
+    await settle()
+
+    tab.postMessage({ table: 'Test', type: 'create', keys: [[1]] })
+    await settle()
+    tab.postMessage({ table: 'Other', type: 'create', keys: [[1]] })
+    await settle()
+    assert.deepEqual(calls, [[], []])
+    tab.close()
+  })
+  it('should stop broadcasting once disconnected', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+
+      @Field()
+      name!: string
+    }
+
+    await init('test', 1, {}, { broadcast: { channel: name => new LocalChannel(name) } })
+    // Another tab
+    const tab = new LocalChannel('test')
+
+    await Test.create({ id: 1, name: 'John' })
+    await settle()
+    disconnect()
+    assert.deepEqual([...LocalChannel.channels], [tab])
+
+    await init('test', 1)
+    await Test.create({ id: 2, name: 'Jane' })
+    await settle()
+    assert.deepEqual(tab.received, [{ table: 'Test', type: 'create', keys: [[1]] }])
+    tab.close()
+  })
+})
@@ -1,6 +1,23 @@
 import { assert, describe, it } from 'vitest'
 
-import { db, deleteDB, disconnect, init } from '../src/connection'
+import {
+  createDatabase,
+  db,
+  deleteDB,
+  disconnect,
+  init,
+} from '../src/connection'
+import { Field, Table, defineModel } from '../src/fields'
+import { Model } from '../src/models'
+import { Transaction } from '../src/transaction'
+import { exportDatabase, exportTable } from '../src/exporter'
+import { ConnectionError } from '../src/errors'
+import type {
+  BlockedEvent,
+  TableDefinition,
+  VersionChangeEvent,
+} from '../src/types'
+import { _resetMetadata } from '../src/metadata'
 
 describe('DB Tests', () => {
   it('should be disconnected by default', () => {
@@ -56,3 +73,246 @@ describe('Delete DB', () => {
     assert.lengthOf(databases, 0)
   })
 })
+
+describe('Multiple connections', () => {
+  it('should return the connected handle', async () => {
+    const initResp = await init('test', 1)
+    assert.strictEqual(initResp.db, db)
+  })
+  it('shouldn\'t reuse a handle connected to another database', async () => {
+    await init('test', 1)
+
+    await init('other', 1)
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.instanceOf(err, ConnectionError))
+    await init('other', { autoVersion: true })
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.instanceOf(err, ConnectionError))
+    assert.equal(db.connected && db.name, 'test')
+  })
+  it('should connect a new handle without touching the global one', async () => {
+    const cacheDB = createDatabase()
+    const initResp = await init('cache', 1, {}, { database: cacheDB })
+
+    assert.strictEqual(initResp.db, cacheDB)
+    assert(cacheDB.connected)
+    assert.equal(cacheDB.name, 'cache')
+    assert(!db.connected)
+
+    disconnect(cacheDB)
+    assert(!cacheDB.connected)
+    await deleteDB('cache')
+  })
+  it('should only create bound tables in their database', async () => {
+    const cacheDB = createDatabase()
+
+    @Table({ database: cacheDB })
+    class Cached extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    await init('test', 1)
+    await init('cache', 1, {}, { database: cacheDB })
+    assert(db.connected && cacheDB.connected)
+
+    assert.deepEqual(Array.from(db.session.objectStoreNames), ['Test'])
+    assert.sameMembers(Array.from(cacheDB.session.objectStoreNames), [
+      'Cached',
+      'Test',
+    ])
+
+    await Cached.create({ id: 1 })
+    await Test.create({ id: 2 })
+    assert.deepEqual(await exportTable('Cached', cacheDB), [{ id: 1 }])
+    assert.deepEqual(await exportTable('Test', cacheDB), [])
+    assert.deepEqual(await exportTable('Test'), [{ id: 2 }])
+
+    disconnect(cacheDB)
+    await deleteDB('cache')
+  })
+  it('should allow using unbound models on another database', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    const cacheDB = createDatabase()
+    await init('test', 1)
+    await init('cache', 1, {}, { database: cacheDB })
+
+    await Transaction(
+      'readwrite',
+      [Test],
+      async (tx) => {
+        await Test.create({ id: 1 }, tx)
+      },
+      cacheDB,
+    )
+
+    assert.lengthOf(await Test.all(), 0)
+    assert.deepEqual(await exportDatabase([], cacheDB), { Test: [{ id: 1 }] })
+
+    disconnect(cacheDB)
+    await deleteDB('cache')
+  })
+  it('should fail when the bound database is not connected', async () => {
+    const cacheDB = createDatabase()
+
+    @Table({ database: cacheDB })
+    class Cached extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    await init('test', 1)
+
+    await Cached.create({ id: 1 })
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.instanceOf(err, ConnectionError))
+  })
+  it('shouldn\'t mix databases in a transaction', async () => {
+    const cacheDB = createDatabase()
+
+    @Table({ database: cacheDB })
+    class Cached extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+
+    await init('test', 1)
+
+    await Transaction('readonly', [Test, Cached], async () => {})
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.match(err.message, /share a database/))
+  })
+})
+
+describe('Blocked connections', () => {
+  it('should notify and time out when an upgrade is blocked', async () => {
+    await init('test', 1)
+
+    const events: BlockedEvent[] = []
+    const otherTab = createDatabase()
+    await init('test', 2, {}, {
+      database: otherTab,
+      blockedTimeout: 20,
+      onBlocked: event => events.push(event),
+    })
+      .then(() => assert.fail('Should have been blocked'))
+      .catch((err: Error) => {
+        assert.instanceOf(err, ConnectionError)
+        assert.match(err.message, /blocked/)
+      })
+
+    assert.deepEqual(events, [{ name: 'test', oldVersion: 1, newVersion: 2 }])
+    assert(!otherTab.connected)
+  })
+  it('should let other connections upgrade when asked to', async () => {
+    const events: VersionChangeEvent[] = []
+    await init('test', 1, {}, {
+      closeOnVersionChange: true,
+      onVersionChange: event => events.push(event),
+    })
+
+    const otherTab = createDatabase()
+    const initResp = await init('test', 2, {}, {
+      database: otherTab,
+      blockedTimeout: 20,
+    })
+
+    assert(initResp.upgraded)
+    assert(!db.connected)
+    assert.deepEqual(events, [
+      { name: 'test', oldVersion: 1, newVersion: 2, closed: true },
+    ])
+
+    disconnect(otherTab)
+  })
+  it('should notify and time out when a deletion is blocked', async () => {
+    await init('test', 1)
+
+    let blocked = false
+    await deleteDB('test', {
+      blockedTimeout: 20,
+      onBlocked: () => {
+        blocked = true
+      },
+    })
+      .then(() => assert.fail('Should have been blocked'))
+      .catch((err: Error) => assert.instanceOf(err, ConnectionError))
+
+    assert.isTrue(blocked)
+  })
+})
+
+describe('Auto versioning', () => {
+  function defineTest(definition: TableDefinition) {
+    _resetMetadata()
+    class Test extends Model {
+      id!: number
+      name!: string
+    }
+    defineModel(Test, definition)
+    return Test
+  }
+
+  it('should create the database on the first version', async () => {
+    defineTest({ id: { primaryKey: true } })
+
+    const initResp = await init('test', { autoVersion: true })
+    assert(initResp.upgraded)
+    assert(db.connected)
+    assert.equal(db.version, 1)
+    assert.include(Array.from(db.session.objectStoreNames), 'Test')
+  })
+  it('shouldn\'t upgrade if the schema didn\'t change', async () => {
+    defineTest({ id: { primaryKey: true } })
+    await init('test', { autoVersion: true })
+    disconnect()
+
+    defineTest({ id: { primaryKey: true } })
+    const initResp = await init('test', { autoVersion: true })
+    assert(!initResp.upgraded)
+    assert(db.connected)
+    assert.equal(db.version, 1)
+  })
+  it('should upgrade when the schema changes', async () => {
+    defineTest({ id: { primaryKey: true }, name: { index: false } })
+    await init('test', { autoVersion: true })
+    disconnect()
+
+    const Test = defineTest({ id: { primaryKey: true }, name: { unique: true } })
+    const initResp = await init('test', { autoVersion: true })
+    assert(initResp.upgraded)
+    assert(db.connected)
+    assert.equal(db.version, 2)
+
+    const store = db.session.transaction('Test').objectStore('Test')
+    assert.isTrue(store.index('name').unique)
+
+    await Test.create({ id: 1, name: 'test' })
+    assert.deepEqual(await exportDatabase(), { Test: [{ id: 1, name: 'test' }] })
+  })
+  it('should take over a manually versioned database', async () => {
+    defineTest({ id: { primaryKey: true } })
+    await init('test', 3)
+    disconnect()
+
+    defineTest({ id: { primaryKey: true } })
+    const initResp = await init('test', { autoVersion: true })
+    assert(initResp.upgraded)
+    assert(db.connected)
+    assert.equal(db.version, 4)
+  })
+})
@@ -66,6 +66,54 @@ describe('Fields', () => {
         return Test
       }, /cannot be nullable/)
     })
+    it('should support auto-incremented primary keys', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+      }
+
+      await init('test', 1)
+
+      const store = _objectStore('Test')
+      assert.equal(store.keyPath, 'id')
+      assert.isTrue(store.autoIncrement)
+    })
+    it('should not version a primary key', () => {
+      assert.throws(() => {
+        class Test extends Model {
+          @Field({ primaryKey: true, version: true })
+          id!: number
+        }
+
+        return Test
+      }, /cannot be a version/)
+    })
+    it('should only auto-increment a single primary key', async () => {
+      assert.throws(() => {
+        class Test extends Model {
+          @Field({ autoIncrement: true })
+          id!: number
+        }
+
+        return Test
+      }, /Only a primary key/)
+
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+
+        @Field({ primaryKey: true })
+        id2!: number
+      }
+
+      try {
+        await init('test', 1)
+        assert.fail('The table should not be created')
+      }
+      catch (e) {
+        assert.match((e as Error).message, /compound primary key/)
+      }
+    })
     it('should\'t support Symbols', () => {
       assert.throws(() => {
         const sym = Symbol('test')
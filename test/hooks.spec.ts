@@ -0,0 +1,260 @@
+import { assert, describe, it } from 'vitest'
+
+import { init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Hook } from '../src/hooks'
+import { Model } from '../src/models'
+import { Query } from '../src/query'
+import { Transaction } from '../src/transaction'
+
+describe('Hooks', () => {
+  describe('instance hooks', () => {
+    it('should run the create hooks', async () => {
+      const events: string[] = []
+
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field({ nullable: false })
+        createdBy!: string
+
+        beforeCreate() {
+          events.push('beforeCreate')
+          this.createdBy = 'hook'
+        }
+
+        afterCreate() {
+          events.push('afterCreate')
+        }
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1 })
+      assert.deepEqual(events, ['beforeCreate', 'afterCreate'])
+      assert.equal((await Test.get(1))?.createdBy, 'hook')
+    })
+    it('should run the save and delete hooks', async () => {
+      const events: string[] = []
+
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        beforeSave() {
+          events.push('beforeSave')
+        }
+
+        afterSave() {
+          events.push('afterSave')
+        }
+
+        beforeDelete() {
+          events.push('beforeDelete')
+        }
+
+        afterDelete() {
+          events.push('afterDelete')
+        }
+      }
+
+      await init('test', 1)
+
+      const test = await Test.create({ id: 1 })
+      await test.save()
+      await test.delete()
+      assert.deepEqual(events, [
+        'beforeSave',
+        'afterSave',
+        'beforeDelete',
+        'afterDelete',
+      ])
+    })
+    it('should abort the write when a hook throws', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        afterCreate() {
+          throw new Error('abort')
+        }
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1 })
+        .then(() => assert.fail('Should have thrown an error'))
+        .catch((err: Error) => assert.match(err.message, /abort/))
+
+      assert.equal(await Test.count(), 0)
+    })
+    it('should run async hooks in the same transaction', async () => {
+      class Log extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+      }
+
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        async afterCreate(tx: IDBTransaction) {
+          await Log.create({ id: this.id }, tx)
+        }
+      }
+
+      await init('test', 1)
+
+      await Transaction('readwrite', [Test, Log], async (tx) => {
+        await Test.create({ id: 1 }, tx)
+        await Test.create({ id: 2 }, tx)
+      })
+      assert.equal(await Log.count(), 2)
+
+      await Transaction('readwrite', [Test, Log], async (tx) => {
+        await Test.create({ id: 3 }, tx)
+        throw new Error('rollback')
+      }).catch(() => {})
+      assert.equal(await Log.count(), 2)
+    })
+  })
+  describe('decorator', () => {
+    it('should run decorated methods after the overridden one', async () => {
+      const events: string[] = []
+
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        beforeSave() {
+          events.push('override')
+        }
+
+        @Hook('beforeSave')
+        first() {
+          events.push('first')
+        }
+
+        @Hook('beforeSave')
+        second() {
+          events.push('second')
+        }
+      }
+
+      await init('test', 1)
+
+      const test = await Test.create({ id: 1 })
+      await test.save()
+      assert.deepEqual(events, ['override', 'first', 'second'])
+    })
+    it('should inherit decorated methods', async () => {
+      const events: string[] = []
+
+      abstract class Base extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Hook('afterCreate')
+        log() {
+          events.push(`created ${this.id}`)
+        }
+      }
+
+      class Test extends Base {
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1, name: 'test' })
+      assert.deepEqual(events, ['created 1'])
+    })
+    it('should check whether the method is static', () => {
+      assert.throws(() => {
+        class Test extends Model {
+          @Hook('beforeBulkDelete')
+          hook() {}
+        }
+
+        return Test
+      }, /must be static/)
+      assert.throws(() => {
+        class Test extends Model {
+          @Hook('beforeCreate')
+          static hook() {}
+        }
+
+        return Test
+      }, /must be instance/)
+    })
+  })
+  describe('bulk hooks', () => {
+    it('should run the update hooks', async () => {
+      const updated: IDBValidKey[] = []
+
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ nullable: true })
+        updatedBy?: string
+
+        static beforeBulkUpdate(query: Query<Test>, updates: Partial<Test>) {
+          updates.updatedBy = 'hook'
+        }
+
+        @Hook('afterBulkUpdate')
+        static log(query: Query<Test>, keys: IDBValidKey[]) {
+          updated.push(...keys)
+        }
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1, name: 'test' })
+      await Test.create({ id: 2, name: 'test' })
+      await Test.create({ id: 3, name: 'other' })
+
+      await Test.filter({ name: 'test' }).update({ name: 'updated' })
+      assert.sameDeepMembers(updated, [[1], [2]])
+      assert.sameDeepMembers(
+        (await Test.filter({ updatedBy: 'hook' }).all()).map(t => t.id),
+        [1, 2],
+      )
+    })
+    it('should run the delete hooks and abort on error', async () => {
+      const deleted: IDBValidKey[] = []
+
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        static afterBulkDelete(query: Query<Test>, keys: IDBValidKey[]) {
+          deleted.push(...keys)
+          if (keys.length > 1)
+            throw new Error('Too many deletions')
+        }
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1 })
+      await Test.create({ id: 2 })
+
+      await Test.filter({ id: 1 }).delete()
+      assert.deepEqual(deleted, [[1]])
+
+      await Test.create({ id: 3 })
+      await new Query(Test)
+        .delete()
+        .then(() => assert.fail('Should have thrown an error'))
+        .catch((err: Error) => assert.match(err.message, /Too many/))
+      assert.equal(await Test.count(), 2)
+    })
+  })
+})
@@ -1,9 +1,14 @@
 import { assert, describe, it } from 'vitest'
 
 import { init } from '../src/connection'
-import { Field } from '../src/fields'
+import { Field, defineModel } from '../src/fields'
 import { Model } from '../src/models'
-import { getPrimaryKeys } from '../src/metadata'
+import {
+  _overrideTableData,
+  _resetMetadata,
+  getPrimaryKeys,
+  getSchemaHash,
+} from '../src/metadata'
 
 describe('Metadata', () => {
   describe('getPrimaryKeys', () => {
@@ -26,4 +31,44 @@ describe('Metadata', () => {
       assert.sameMembers(primaryKeys, ['id1', 'id2'])
     })
   })
+  describe('getSchemaHash', () => {
+    it('should only depend on the schema', () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field({ default: 'test' })
+        name!: string
+      }
+
+      const hash = getSchemaHash()
+      _resetMetadata()
+
+      class Test2 extends Model {
+        id!: number
+        name!: string
+      }
+      Object.defineProperty(Test2, 'name', { value: 'Test' })
+      defineModel(Test2, {
+        id: { primaryKey: true },
+        name: { nullable: false },
+      })
+
+      assert.equal(getSchemaHash(), hash)
+    })
+    it('should change with the indexes', () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+      }
+
+      const hash = getSchemaHash()
+      _overrideTableData(Test.prototype, { indexes: { idName: 'id+name' } })
+
+      assert.notEqual(getSchemaHash(), hash)
+    })
+  })
 })
@@ -2,8 +2,10 @@ import { assert, describe, it } from 'vitest'
 
 import { Model } from '../src/models'
 import { init } from '../src/connection'
-import { Field } from '../src/fields'
+import { CreatedAt, Field, UpdatedAt } from '../src/fields'
 import { _objectStore } from '../src/transaction'
+import { ConcurrencyError } from '../src/errors'
+import { setClock } from '../src/timestamps'
 
 describe('Models', () => {
   describe('create', () => {
@@ -121,6 +123,26 @@ describe('Models', () => {
         itemsReq.transaction?.commit()
       })
     })
+    it('should generate auto-incremented keys', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      const first = await Test.create({ name: 'first' })
+      const second = await Test.create({ name: 'second' })
+      assert.equal(first.id, 1)
+      assert.equal(second.id, 2)
+
+      const explicit = await Test.create({ id: 10, name: 'explicit' })
+      assert.equal(explicit.id, 10)
+      assert.equal((await Test.create({ name: 'next' })).id, 11)
+    })
   })
   describe('get', () => {
     it('should get an instance of a model', async () => {
@@ -137,6 +159,26 @@ describe('Models', () => {
       assert.instanceOf(obtainedTest, Test)
       assert.deepEqual(createdTest, obtainedTest)
     })
+    it('should get an instance with an auto-incremented key', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      const createdTest = await Test.create({ name: 'test' })
+
+      assert.deepEqual(await Test.get(createdTest.id), createdTest)
+      assert.deepEqual(await Test.get(createdTest.keys), createdTest)
+      assert.deepEqual(await Test.keys(), [[createdTest.id]])
+
+      await createdTest.delete()
+      assert.isNull(await Test.get(createdTest.id))
+    })
     it('should return null if the model does not exist', async () => {
       class Test extends Model {
         @Field({ primaryKey: true })
@@ -332,6 +374,399 @@ describe('Models', () => {
       assert.deepEqual(obtainedTest, createdTest)
     })
   })
+  describe('bulk', () => {
+    it('should create many instances at once', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ default: 'test' })
+        test!: string
+      }
+
+      await init('test', 1)
+
+      const { results, failed } = await Test.bulkCreate([
+        { name: 'first' },
+        { name: 'second', test: 'other' },
+      ])
+      assert.deepEqual(results.map(t => t?.id), [1, 2])
+      assert.lengthOf(failed, 0)
+
+      const obtainedTests = await Test.all()
+      assert.deepEqual(obtainedTests.map(t => [t.name, t.test]), [
+        ['first', 'test'],
+        ['second', 'other'],
+      ])
+    })
+    it('should create many instances atomically', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field({ nullable: false })
+        name!: string
+      }
+
+      await init('test', 1)
+      await Test.create({ id: 2, name: 'existing' })
+
+      let error: unknown
+      try {
+        await Test.bulkCreate([{ id: 1, name: 'first' }, { id: 2, name: 'duplicate' }])
+      }
+      catch (e) {
+        error = e
+      }
+      assert.equal((error as Error).name, 'ConstraintError')
+
+      try {
+        await Test.bulkCreate([{ id: 3, name: 'third' }, { id: 4 }])
+      }
+      catch (e) {
+        error = e
+      }
+      assert.equal((error as Error).name, 'ModelError')
+      assert.deepEqual(await Test.keys(), [[2]])
+    })
+    it('should report the failed items', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field({ nullable: false })
+        name!: string
+      }
+
+      await init('test', 1)
+      await Test.create({ id: 2, name: 'existing' })
+
+      const { results, failed } = await Test.bulkCreate([
+        { id: 1, name: 'first' },
+        { id: 2, name: 'duplicate' },
+        { id: 3 },
+        { id: 4, name: 'fourth' },
+      ], { continueOnError: true })
+      assert.deepEqual(results.map(t => t?.id ?? null), [1, null, null, 4])
+      assert.deepEqual(failed.map(f => f.index), [1, 2])
+      assert.equal((failed[0].error as Error).name, 'ConstraintError')
+      assert.equal((failed[1].error as Error).name, 'ModelError')
+      assert.deepEqual(await Test.keys(), [[1], [2], [4]])
+    })
+    it('should save and delete many instances at once', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      const { results } = await Test.bulkCreate([
+        { id: 1, name: 'first' },
+        { id: 2, name: 'second' },
+        { id: 3, name: 'third' },
+      ])
+      const tests = results as Test[]
+      tests.forEach(t => t.name = t.name.toUpperCase())
+      await Test.bulkSave(tests)
+      assert.deepEqual((await Test.all()).map(t => t.name), ['FIRST', 'SECOND', 'THIRD'])
+
+      const { failed } = await Test.bulkDelete(tests.slice(0, 2))
+      assert.lengthOf(failed, 0)
+      assert.deepEqual(await Test.keys(), [[3]])
+    })
+  })
+  describe('upsert', () => {
+    it('should create or update by primary key', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ default: 'test' })
+        test!: string
+      }
+
+      await init('test', 1)
+
+      let test = await Test.upsert({ id: 1, name: 'first' })
+      assert.deepEqual({ ...test }, { id: 1, name: 'first', test: 'test' })
+
+      await Test.upsert({ id: 1, test: 'other' })
+      test = await Test.get(1) as Test
+      assert.deepEqual({ ...test }, { id: 1, name: 'first', test: 'other' })
+      assert.equal(await Test.count(), 1)
+    })
+    it('should find the existing instance with a unique index', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+
+        @Field({ unique: true })
+        email!: string
+
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      const created = await Test.upsert({ email: 'john@doe.com', name: 'John' }, { conflictFields: ['email'] })
+      const updated = await Test.upsert({ email: 'john@doe.com', name: 'Johnny' }, { conflictFields: ['email'] })
+      assert.equal(updated.id, created.id)
+      assert.equal(updated.name, 'Johnny')
+      assert.equal(await Test.count(), 1)
+
+      // The existing instance keeps its primary key
+      const moved = await Test.upsert({ id: created.id + 1, email: 'john@doe.com', name: 'J' }, { conflictFields: ['email'] })
+      assert.equal(moved.id, created.id)
+      assert.equal((await Test.get(created.id))?.name, 'J')
+      assert.equal(await Test.count(), 1)
+
+      let error: unknown
+      try {
+        await Test.upsert({ name: 'John' }, { conflictFields: ['name'] })
+      }
+      catch (e) {
+        error = e
+      }
+      assert.equal((error as Error).name, 'ModelError')
+    })
+  })
+  describe('getOrCreate', () => {
+    it('should get the existing instance or create it', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true, autoIncrement: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ default: 'test' })
+        test!: string
+      }
+
+      await init('test', 1)
+
+      const first = await Test.getOrCreate({ name: 'John' }, { test: 'other' })
+      assert.isTrue(first.created)
+      assert.deepEqual({ ...first.instance }, { id: 1, name: 'John', test: 'other' })
+
+      const second = await Test.getOrCreate({ name: 'John' }, { test: 'ignored' })
+      assert.isFalse(second.created)
+      assert.deepEqual(second.instance, first.instance)
+      assert.equal(await Test.count(), 1)
+    })
+  })
+  describe('dirty tracking', () => {
+    it('should track the changed fields', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ index: false })
+        tags!: string[]
+
+        @Field({ index: false })
+        date!: Date
+      }
+
+      await init('test', 1)
+
+      const created = await Test.create({ id: 1, name: 'first', tags: ['a'], date: new Date(1) })
+      assert.isFalse(created.isDirty)
+
+      const test = await Test.get(1) as Test
+      assert.isFalse(test.isDirty)
+      assert.deepEqual(test.changedFields(), [])
+
+      test.name = 'second'
+      test.tags.push('b')
+      test.date = new Date(1)
+      assert.isTrue(test.isDirty)
+      assert.deepEqual(test.changedFields(), ['name', 'tags'])
+      assert.equal(test.previous('name'), 'first')
+      assert.deepEqual(test.previous('tags'), ['a'])
+
+      await test.save()
+      assert.isFalse(test.isDirty)
+      assert.equal(test.previous('name'), 'second')
+
+      const newTest = new Test()
+      newTest.id = 2
+      assert.isTrue(newTest.isDirty)
+      assert.deepEqual(newTest.changedFields(), ['id'])
+      assert.isUndefined(newTest.previous('id'))
+    })
+    it('should only save the changed fields', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ nullable: true })
+        note?: string
+      }
+
+      await init('test', 1)
+      await Test.create({ id: 1, name: 'first', note: 'note' })
+
+      const first = await Test.get(1) as Test
+      const second = await Test.get(1) as Test
+      first.name = 'changed'
+      await first.save({ onlyChanged: true })
+
+      second.note = undefined
+      await second.save({ onlyChanged: true })
+      assert.equal(second.name, 'changed')
+      assert.isFalse(second.isDirty)
+
+      const obtainedTest = await Test.get(1) as Test
+      assert.deepEqual({ ...obtainedTest }, { id: 1, name: 'changed' })
+    })
+  })
+  describe('version', () => {
+    async function populate() {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ version: true })
+        version!: number
+      }
+
+      await init('test', 1)
+      await Test.create({ id: 1, name: 'first' })
+      return Test
+    }
+
+    it('should increment the version on every write', async () => {
+      const Test = await populate()
+
+      const test = await Test.get(1) as InstanceType<typeof Test>
+      assert.equal(test.version, 1)
+
+      test.name = 'second'
+      await test.save()
+      assert.equal(test.version, 2)
+      await Test.filter({ id: 1 }).update({ name: 'third' })
+      await Test.bulkSave([await Test.get(1) as InstanceType<typeof Test>])
+      assert.equal((await Test.get(1))?.version, 4)
+    })
+    it('should fail to save a row written since it was read', async () => {
+      const Test = await populate()
+
+      const first = await Test.get(1) as InstanceType<typeof Test>
+      const second = await Test.get(1) as InstanceType<typeof Test>
+      first.name = 'first tab'
+      await first.save()
+
+      second.name = 'second tab'
+      let error: unknown
+      try {
+        await second.save()
+      }
+      catch (e) {
+        error = e
+      }
+      assert.instanceOf(error, ConcurrencyError)
+      assert.deepEqual(error.current, { id: 1, name: 'first tab', version: 2 })
+      assert.equal((await Test.get(1))?.name, 'first tab')
+
+      const { failed } = await Test.bulkSave([second], { continueOnError: true })
+      assert.instanceOf(failed[0].error, ConcurrencyError)
+
+      await first.delete()
+      try {
+        await first.save({ onlyChanged: true })
+      }
+      catch (e) {
+        error = e
+      }
+      assert.isNull((error as ConcurrencyError).current)
+    })
+    it('should check the version of the updates', async () => {
+      const Test = await populate()
+
+      let error: unknown
+      try {
+        await Test.filter({ id: 1 }).update({ name: 'stale', version: 2 })
+      }
+      catch (e) {
+        error = e
+      }
+      assert.instanceOf(error, ConcurrencyError)
+
+      await Test.filter({ id: 1 }).update({ name: 'fresh', version: 1 })
+      const test = await Test.get(1) as InstanceType<typeof Test>
+      assert.deepEqual({ ...test }, { id: 1, name: 'fresh', version: 2 })
+    })
+  })
+  describe('timestamps', () => {
+    it('should fill the timestamps on every write', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @CreatedAt()
+        createdAt!: Date
+
+        @UpdatedAt()
+        updatedAt!: Date
+      }
+
+      await init('test', 1)
+
+      let now = 1000
+      setClock(() => new Date(now))
+      try {
+        const test = await Test.create({ id: 1, name: 'first' })
+        assert.deepEqual([test.createdAt, test.updatedAt], [new Date(1000), new Date(1000)])
+
+        now = 2000
+        await test.save()
+        assert.deepEqual([test.createdAt, test.updatedAt], [new Date(1000), new Date(2000)])
+
+        now = 3000
+        await Test.filter({ id: 1 }).update({ name: 'second' })
+        let obtainedTest = await Test.get(1) as Test
+        assert.deepEqual([obtainedTest.createdAt, obtainedTest.updatedAt], [new Date(1000), new Date(3000)])
+
+        now = 4000
+        await Test.upsert({ id: 1, name: 'third' })
+        await Test.upsert({ id: 2, name: 'other' })
+        const { results } = await Test.bulkCreate([{ id: 3, name: 'bulk', createdAt: new Date(0) }])
+        await Test.bulkSave([obtainedTest])
+
+        obtainedTest = await Test.get(1) as Test
+        assert.deepEqual(obtainedTest.updatedAt, new Date(4000))
+        assert.deepEqual((await Test.get(2))?.createdAt, new Date(4000))
+        assert.deepEqual([results[0]?.createdAt, results[0]?.updatedAt], [new Date(0), new Date(4000)])
+      }
+      finally {
+        setClock()
+      }
+    })
+  })
   describe('update', () => {
     it('should update an instance', async () => {
       class Test extends Model {
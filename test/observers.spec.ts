@@ -0,0 +1,135 @@
+import { assert, describe, it } from 'vitest'
+
+import { init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Model } from '../src/models'
+import { Transaction } from '../src/transaction'
+import { importTable } from '../src/exporter'
+import { settle } from './utils'
+
+async function populate() {
+  class Test extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+
+    @Field()
+    name!: string
+  }
+
+  class Other extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+  }
+
+  await init('test', 1)
+
+  await Test.create({ id: 1, name: 'John' })
+  await Test.create({ id: 2, name: 'Jane' })
+
+  return { Test, Other }
+}
+
+describe('Observers', () => {
+  it('should pass the results right away and after each write', async () => {
+    const { Test } = await populate()
+
+    const calls: number[][] = []
+    const unsubscribe = Test.filter({ name: 'John' }).observe((tests) => {
+      calls.push(tests.map(t => t.id))
+    })
+    await settle()
+    assert.deepEqual(calls, [[1]])
+
+    await Test.create({ id: 3, name: 'John' })
+    await settle()
+    assert.deepEqual(calls, [[1], [1, 3]])
+
+    const test = await Test.get(1) as InstanceType<typeof Test>
+    test.name = 'Jack'
+    await test.save()
+    await settle()
+    await (await Test.get(3))?.delete()
+    await settle()
+    assert.deepEqual(calls, [[1], [1, 3], [3], []])
+
+    unsubscribe()
+    await Test.create({ id: 4, name: 'John' })
+    await settle()
+    assert.lengthOf(calls, 4)
+  })
+  it('should run the query once per transaction', async () => {
+    const { Test } = await populate()
+
+    const calls: string[][] = []
+    Test.orderBy('name').subscribe({
+      next: tests => calls.push(tests.map(t => t.name)),
+    })
+    await settle()
+
+    await Transaction('readwrite', [Test], async (tx) => {
+      await Test.create({ id: 3, name: 'Jack' }, tx)
+      await Test.create({ id: 4, name: 'Jill' }, tx)
+    })
+    await settle()
+    assert.deepEqual(calls, [['Jane', 'John'], ['Jack', 'Jane', 'Jill', 'John']])
+  })
+  it('should ignore the rolled back writes', async () => {
+    const { Test } = await populate()
+
+    let calls = 0
+    Test.filter({}).observe(() => {
+      calls += 1
+    })
+    await settle()
+
+    try {
+      await Transaction('readwrite', [Test], async (tx) => {
+        await Test.create({ id: 3, name: 'Jack' }, tx)
+        throw new Error('rollback')
+      })
+    }
+    catch {
+      // Expected
+    }
+    await settle()
+    assert.equal(calls, 1)
+    assert.equal(await Test.count(), 2)
+  })
+  it('should only observe the tables of the query', async () => {
+    const { Test, Other } = await populate()
+
+    let calls = 0
+    Test.filter({}).observe(() => {
+      calls += 1
+    })
+    await settle()
+
+    await Other.create({ id: 1 })
+    await settle()
+    assert.equal(calls, 1)
+  })
+  it('should observe the bulk writes and imports', async () => {
+    const { Test } = await populate()
+
+    const calls: number[] = []
+    Test.filter({}).observe((tests) => {
+      calls.push(tests.length)
+    })
+    await settle()
+
+    await importTable('Test', [{ id: 3, name: 'Jack' }])
+    await settle()
+    await Test.filter({ name: 'Jack' }).update({ name: 'John' })
+    await settle()
+    await Test.filter({ name: 'John' }).delete()
+    await settle()
+    Test.clear()
+    await settle()
+    assert.deepEqual(calls, [2, 3, 3, 1, 0])
+
+    // Nothing written, nothing notified
+    await Test.filter({ name: 'John' }).delete()
+    await settle()
+    assert.lengthOf(calls, 5)
+  })
+})
@@ -0,0 +1,143 @@
+import { assert, describe, it } from 'vitest'
+
+import { init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Model } from '../src/models'
+import type { Query } from '../src/query'
+import { Between } from '../src/query'
+import { WormError } from '../src/errors'
+
+async function populate() {
+  class Test extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+
+    @Field()
+    name!: string
+
+    @Field({ index: false })
+    score!: number
+
+    @Field()
+    date!: Date
+  }
+
+  await init('test', 1)
+
+  await Test.create({ id: 1, name: 'b', score: 3, date: new Date(5) })
+  await Test.create({ id: 2, name: 'a', score: 1, date: new Date(4) })
+  await Test.create({ id: 3, name: 'b', score: 2, date: new Date(3) })
+  await Test.create({ id: 4, name: 'c', score: 2, date: new Date(2) })
+  await Test.create({ id: 5, name: 'b', score: 1, date: new Date(1) })
+
+  return Test
+}
+
+/**
+ * Reads all the pages of a query, forwards and then backwards.
+ * @param query - Creates the query
+ * @param pageSize - The size of the pages
+ * @returns - The ids of each page, in both directions
+ */
+async function walk<T extends Model & { id: number }>(query: () => Query<T>, pageSize: number) {
+  const forwards: number[][] = []
+  let page = await query().paginate({ pageSize })
+  forwards.push(page.items.map(t => t.id))
+  assert.isNull(page.prevCursor)
+  while (page.nextCursor) {
+    page = await query().after(page.nextCursor).paginate({ pageSize })
+    forwards.push(page.items.map(t => t.id))
+  }
+
+  const backwards: number[][] = [page.items.map(t => t.id)]
+  while (page.prevCursor) {
+    page = await query().before(page.prevCursor).paginate({ pageSize })
+    backwards.unshift(page.items.map(t => t.id))
+  }
+  return { forwards, backwards }
+}
+
+describe('Pagination', () => {
+  it('should paginate by primary key', async () => {
+    const Test = await populate()
+
+    const { forwards, backwards } = await walk(() => Test.filter({}), 2)
+    assert.deepEqual(forwards, [[1, 2], [3, 4], [5]])
+    assert.deepEqual(backwards, forwards)
+  })
+  it('should paginate an index with ties', async () => {
+    const Test = await populate()
+
+    let pages = await walk(() => Test.orderBy('name'), 2)
+    assert.deepEqual(pages.forwards, [[2, 1], [3, 5], [4]])
+    assert.deepEqual(pages.backwards, pages.forwards)
+
+    pages = await walk(() => Test.orderBy('-name'), 2)
+    assert.deepEqual(pages.forwards, [[4, 5], [3, 1], [2]])
+    assert.deepEqual(pages.backwards, pages.forwards)
+  })
+  it('should paginate the results sorted in memory', async () => {
+    const Test = await populate()
+
+    const { forwards, backwards } = await walk(() => Test.orderBy('score', '-name'), 2)
+    assert.deepEqual(forwards, [[5, 2], [4, 3], [1]])
+    assert.deepEqual(backwards, forwards)
+  })
+  it('should paginate the missing values sorted in memory', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+
+      @Field({ nullable: true, index: false })
+      rank?: number | null
+    }
+    await init('test', 1)
+
+    for (let id = 1; id <= 6; id++)
+      await Test.create({ id, rank: id > 3 ? 7 - id : (id === 2 ? null : undefined) })
+
+    const { forwards, backwards } = await walk(() => Test.orderBy('rank'), 2)
+    assert.deepEqual(forwards, [[1, 2], [3, 6], [5, 4]])
+    assert.deepEqual(backwards, forwards)
+  })
+  it('should paginate a filtered index', async () => {
+    const Test = await populate()
+
+    const query = () => Test.filter({ date: Between(new Date(2), new Date(4)) })
+    assert.equal((await query().explain()).index, 'date')
+    const { forwards, backwards } = await walk(query, 2)
+    assert.deepEqual(forwards, [[4, 3], [2]])
+    assert.deepEqual(backwards, forwards)
+  })
+  it('should resume from a cursor with a limit and an offset', async () => {
+    const Test = await populate()
+
+    const page = await Test.orderBy('name').paginate({ pageSize: 1 })
+    const cursor = page.nextCursor as string
+    assert.isString(cursor)
+
+    let obtainedTests = await Test.orderBy('name').after(cursor).offset(1).limit(2).all()
+    assert.deepEqual(obtainedTests.map(t => t.id), [3, 5])
+
+    // The row of the cursor can be gone
+    await Test.filter({ id: 2 }).delete()
+    obtainedTests = await Test.orderBy('name').after(cursor).all()
+    assert.deepEqual(obtainedTests.map(t => t.id), [1, 3, 5, 4])
+  })
+  it('should need the order of the cursor', async () => {
+    const Test = await populate()
+
+    const page = await Test.orderBy('name').paginate({ pageSize: 1 })
+    const cursor = page.nextCursor as string
+
+    let error: unknown
+    try {
+      await Test.orderBy('date').after(cursor).all()
+    }
+    catch (e) {
+      error = e
+    }
+    assert.instanceOf(error, WormError)
+    assert.throws(() => Test.filter({}).after('invalid'), WormError)
+  })
+})
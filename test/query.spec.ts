@@ -5,6 +5,7 @@ import { Model } from '../src/models'
 import { Field, Table } from '../src/fields'
 import { Between, Query } from '../src/query'
 import { WormError } from '../src/errors'
+import { In, NotEqual, not, or } from '../src/filters'
 
 describe('Query builder', () => {
   describe('filter', () => {
@@ -160,6 +161,113 @@ describe('Query builder', () => {
       assert.sameDeepMembers(obtainedTests, [test1, test2, test3, test4])
     })
   })
+  describe('combined filters', () => {
+    async function populate() {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field()
+        age!: number
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1, name: 'John', age: 10 })
+      await Test.create({ id: 2, name: 'Jane', age: 20 })
+      await Test.create({ id: 3, name: 'Jack', age: 30 })
+      await Test.create({ id: 4, name: 'John', age: 40 })
+
+      return Test
+    }
+
+    it('should filter by a list of values', async () => {
+      const Test = await populate()
+
+      const obtainedTests = await Test.filter({ name: In(['Jack', 'John']) }).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [3, 1, 4])
+
+      const reversed = await Test.filter({ name: In(['John', 'Jack']) }).reverse().all()
+      assert.deepEqual(reversed.map(t => t.id), [4, 1, 3])
+
+      assert.equal(await Test.filter({ name: In([]) }).count(), 0)
+    })
+    it('should filter by a different value', async () => {
+      const Test = await populate()
+
+      const obtainedTests = await Test.filter({ name: NotEqual('John') }).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [2, 3])
+    })
+    it('should combine the conditions of a field', async () => {
+      const Test = await populate()
+
+      let obtainedTests = await Test.filter({
+        age: or(Between(null, 15), Between(35, null)),
+      }).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [1, 4])
+
+      obtainedTests = await Test.filter({ age: or(20, (a: number) => a > 35) }).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [2, 4])
+
+      obtainedTests = await Test.filter({ age: not(Between(15, 35)) }).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [1, 4])
+    })
+    it('should combine whole filters', async () => {
+      const Test = await populate()
+
+      let obtainedTests = await Test.filter(or({ name: 'Jane' }, { age: 30 })).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [2, 3])
+
+      obtainedTests = await Test.filter(not({ name: 'John', age: 10 })).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [2, 3, 4])
+    })
+    it('should fulfill all the filters', async () => {
+      const Test = await populate()
+
+      const obtainedTests = await Test.filter({ name: 'John' })
+        .filter({ name: In(['Jane', 'John']), age: 40 })
+        .all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [4])
+
+      assert.equal(await Test.filter({ name: 'John' }).filter({ name: 'Jane' }).count(), 0)
+    })
+    it('should apply the pagination over all the ranges', async () => {
+      const Test = await populate()
+
+      const obtainedTests = await Test.filter({ age: In([40, 10, 30]) })
+        .offset(1)
+        .limit(1)
+        .all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [3])
+    })
+    it('should update the rows found by several ranges once', async () => {
+      const Test = await populate()
+
+      const amount = await Test.filter({ age: In([10, 20]) }).update({ age: 20 })
+      assert.equal(amount, 2)
+      assert.equal(await Test.filter({ age: 20 }).count(), 2)
+    })
+    it('should check the values that can\'t be keys on each row', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        active!: boolean
+      }
+      await init('test', 1)
+
+      await Test.create({ id: 1, active: true })
+      await Test.create({ id: 2, active: false })
+
+      assert.deepEqual((await Test.filter({ active: true }).all()).map(t => t.id), [1])
+      assert.deepEqual((await Test.filter({ active: In([false]) }).all()).map(t => t.id), [2])
+      assert.deepEqual((await Test.filter({ active: or(true, false) }).all()).map(t => t.id), [1, 2])
+    })
+  })
   describe('orderBy', () => {
     it('should order by a single field', async () => {
       class Test extends Model {
@@ -219,6 +327,89 @@ describe('Query builder', () => {
       assert.deepEqual(obtainedTests, [test3, test1, test2])
     })
   })
+  describe('multi-field orderBy', () => {
+    async function populate() {
+      @Table({
+        indexes: {
+          nameAge: 'name+age',
+        },
+      })
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field()
+        age!: number
+
+        @Field({ index: false })
+        score!: number
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1, name: 'b', age: 20, score: 3 })
+      await Test.create({ id: 2, name: 'a', age: 30, score: 1 })
+      await Test.create({ id: 3, name: 'b', age: 10, score: 2 })
+      await Test.create({ id: 4, name: 'a', age: 20, score: 2 })
+
+      return Test
+    }
+
+    it('should order by a compound index', async () => {
+      const Test = await populate()
+
+      let query = Test.orderBy('name', 'age')
+      assert.equal((await query.explain()).index, 'nameAge')
+      assert.deepEqual((await query.all()).map(t => t.id), [4, 2, 3, 1])
+
+      query = Test.orderBy('-name', '-age')
+      const plan = await query.explain()
+      assert.equal(plan.index, 'nameAge')
+      assert.equal(plan.direction, 'prev')
+      assert.isUndefined(plan.sort)
+      assert.deepEqual((await query.all()).map(t => t.id), [1, 3, 2, 4])
+    })
+    it('should skip the fields fixed by the filters', async () => {
+      const Test = await populate()
+
+      const query = Test.filter({ name: 'b' }).orderBy('name', 'age')
+      const plan = await query.explain()
+      assert.equal(plan.index, 'nameAge')
+      assert.isUndefined(plan.sort)
+      assert.deepEqual((await query.all()).map(t => t.id), [3, 1])
+    })
+    it('should sort in memory when no index provides the order', async () => {
+      const Test = await populate()
+
+      const query = Test.orderBy('name', '-age')
+      assert.deepEqual((await query.explain()).sort, ['name', '-age'])
+      assert.deepEqual((await query.all()).map(t => t.id), [2, 4, 1, 3])
+
+      const reversed = await Test.orderBy('score', 'id').reverse().all()
+      assert.deepEqual(reversed.map(t => t.id), [1, 4, 3, 2])
+    })
+    it('should paginate the results sorted in memory', async () => {
+      const Test = await populate()
+
+      const obtainedTests = await Test.filter({ age: Between(15, null) })
+        .orderBy('-score', 'id')
+        .offset(1)
+        .limit(2)
+        .all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [4, 2])
+      assert.equal(await Test.orderBy('score').offset(3).count(), 1)
+    })
+    it('should allow writing the results sorted in memory', async () => {
+      const Test = await populate()
+
+      const amount = await Test.orderBy('score').limit(2).update({ age: 0 })
+      assert.equal(amount, 2)
+      assert.deepEqual((await Test.filter({ age: 0 }).all()).map(t => t.id), [2, 3])
+    })
+  })
   describe('write operations', () => {
     it('should return the first result', async () => {
       class Test extends Model {
@@ -633,7 +824,7 @@ describe('Query builder', () => {
       ).all()
       assert.sameDeepMembers(obtainedTests, [test1, test2])
     })
-    it('shouldn\'t allow using an index and orderBy at the same time', async () => {
+    it('should allow using an index and orderBy at the same time', async () => {
       class Test extends Model {
         @Field({ primaryKey: true })
         id!: number
@@ -644,17 +835,17 @@ describe('Query builder', () => {
 
       await init('test', 1)
 
-      assert.throws(() => {
-        Test.withIndex('id', Between(1, 2)).orderBy('name')
-      }, WormError)
-      assert.throws(() => {
-        Test.orderBy('name').withIndex('id', Between(1, 2))
-      }, WormError)
+      await Test.create({ id: 1, name: 'b' })
+      await Test.create({ id: 2, name: 'a' })
+      await Test.create({ id: 3, name: 'c' })
 
-      await Test.withIndex('id', Between(1, 2))
-        .resetIndex()
-        .orderBy('name')
-        .all()
+      let obtainedTests = await Test.withIndex('id', Between(1, 2)).orderBy('name').all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [2, 1])
+
+      obtainedTests = await Test.orderBy('-name').withIndex('name', In(['a', 'c'])).all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [3, 2])
+      const plan = await Test.orderBy('-name').withIndex('name', In(['a', 'c'])).explain()
+      assert.isUndefined(plan.sort)
     })
     it('should work with compound indexes', async () => {
       @Table({
@@ -732,5 +923,281 @@ describe('Query builder', () => {
 
       assert.sameDeepMembers(obtainedTests, [test1, test3])
     })
+    it('should de-duplicate the rows found by several ranges', async () => {
+      @Table({
+        indexes: {
+          tagsMI: '*tags',
+        },
+      })
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field({ index: false })
+        tags!: string[]
+      }
+
+      await init('test', 1)
+
+      const test1 = await Test.create({ id: 1, tags: ['a', 'b', 'c'] })
+      const test2 = await Test.create({ id: 2, tags: ['a', 'b', 'd'] })
+      await Test.create({ id: 3, tags: ['e'] })
+
+      const obtainedTests = await Test.withIndex('tagsMI', In(['c', 'd', 'b'])).all()
+      assert.deepEqual(obtainedTests, [test1, test2])
+      assert.equal(await Test.withIndex('tagsMI', In(['c', 'd'])).count(), 2)
+    })
+    it('should need an index query able to use it', async () => {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      assert.throws(() => Test.withIndex('name', NotEqual('John')), WormError)
+    })
+  })
+  describe('planner', () => {
+    async function populate() {
+      @Table({
+        indexes: {
+          nameAge: 'name+age',
+        },
+      })
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field()
+        age!: number
+
+        @Field()
+        role!: string
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1, name: 'John', age: 10, role: 'admin' })
+      await Test.create({ id: 2, name: 'Jane', age: 20, role: 'user' })
+      await Test.create({ id: 3, name: 'John', age: 30, role: 'user' })
+      await Test.create({ id: 4, name: 'John', age: 40, role: 'user' })
+
+      return Test
+    }
+
+    it('should read the whole table without filters', async () => {
+      const Test = await populate()
+
+      const plan = await Test.filter({}).explain()
+      assert.isNull(plan.index)
+      assert.isNull(plan.keyRanges)
+      assert.equal(plan.direction, 'next')
+    })
+    it('should use the primary key for an equality on it', async () => {
+      const Test = await populate()
+
+      const plan = await Test.filter({ name: 'John', id: 3 }).explain()
+      assert.isNull(plan.index)
+      assert.deepEqual(plan.keyRanges?.map(r => r.lower as unknown), [[3]])
+      assert.deepEqual(plan.residualFilters, [{ name: 'John' }])
+    })
+    it('should prefer a compound index matching more fields', async () => {
+      const Test = await populate()
+
+      const query = Test.filter({ age: 30 }).filter({ name: 'John', role: 'user' })
+      const plan = await query.explain()
+      assert.equal(plan.index, 'nameAge')
+      assert.deepEqual(plan.keyRanges?.map(r => r.lower as unknown), [['John', 30]])
+      assert.deepEqual(plan.residualFilters, [{ role: 'user' }])
+
+      const obtainedTests = await query.all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [3])
+    })
+    it('should use a trailing range of a compound index', async () => {
+      const Test = await populate()
+
+      const query = Test.filter({ name: 'John', age: Between(10, 30, true) }).reverse()
+      const plan = await query.explain()
+      assert.equal(plan.index, 'nameAge')
+      assert.equal(plan.direction, 'prev')
+      assert.deepEqual(plan.residualFilters, [])
+
+      const obtainedTests = await query.all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [3])
+    })
+    it('should keep the conditions the ranges don\'t guarantee', async () => {
+      const Test = await populate()
+
+      const plan = await Test.filter({
+        age: or(Between(null, 15), Between(35, null)),
+        role: (r: string) => r !== 'admin',
+      }).explain()
+      assert.equal(plan.index, 'age')
+      assert.lengthOf(plan.keyRanges || [], 2)
+      assert.deepEqual(Object.keys(plan.residualFilters[0]), ['role'])
+    })
+    it('should choose the smallest index with estimates', async () => {
+      const Test = await populate()
+
+      const query = Test.filter({ role: 'user', age: Between(35, null) })
+      let plan = await query.explain()
+      assert.equal(plan.index, 'role')
+      assert.isUndefined(plan.estimate)
+
+      plan = await query.estimate().explain()
+      assert.equal(plan.index, 'age')
+      assert.equal(plan.estimate, 1)
+
+      const obtainedTests = await query.all()
+      assert.deepEqual(obtainedTests.map(t => t.id), [4])
+    })
+    it('should use the index of the order', async () => {
+      const Test = await populate()
+
+      let plan = await Test.filter({ role: 'user' }).orderBy('-age').explain()
+      assert.equal(plan.index, 'age')
+      assert.equal(plan.direction, 'prev')
+      assert.deepEqual(plan.residualFilters, [{ role: 'user' }])
+
+      plan = await Test.filter({ name: 'John' }).orderBy('-age').explain()
+      assert.equal(plan.index, 'nameAge')
+      assert.equal(plan.direction, 'prev')
+      assert.deepEqual(plan.residualFilters, [])
+    })
+  })
+  describe('projections', () => {
+    async function populate() {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+
+        @Field({ index: false })
+        content!: string
+
+        @Field({
+          transformer: {
+            toDB: (value: Date) => value.getTime(),
+            fromDB: (value: number) => new Date(value),
+          },
+        })
+        date!: Date
+      }
+
+      await init('test', 1)
+
+      await Test.create({ id: 1, name: 'b', content: 'long', date: new Date(3) })
+      await Test.create({ id: 2, name: 'a', content: 'longer', date: new Date(1) })
+      await Test.create({ id: 3, name: 'c', content: 'longest', date: new Date(2) })
+
+      return Test
+    }
+
+    it('should select some fields', async () => {
+      const Test = await populate()
+
+      const query = Test.orderBy('-date').select('id', 'date')
+      const obtainedTests = await query.all()
+      assert.deepEqual(obtainedTests, [
+        { id: 1, date: new Date(3) },
+        { id: 3, date: new Date(2) },
+        { id: 2, date: new Date(1) },
+      ])
+      assert.notInstanceOf(obtainedTests[0], Test)
+      assert.deepEqual(await Test.filter({ name: 'c' }).select('content').first(), { content: 'longest' })
+      assert.isNull(await Test.filter({ name: 'd' }).select('content').first())
+
+      const names: string[] = []
+      await Test.orderBy('name').limit(2).select('name').forEach((test) => {
+        names.push(test.name)
+      })
+      assert.deepEqual(names, ['a', 'b'])
+    })
+    it('should return the keys of the results', async () => {
+      const Test = await populate()
+
+      assert.deepEqual(await Test.orderBy('name').keys(), [[2], [1], [3]])
+      assert.deepEqual(await Test.filter({ content: 'long' }).keys(), [[1]])
+    })
+    it('should return the values of a field', async () => {
+      const Test = await populate()
+
+      assert.deepEqual(await Test.orderBy('-name').values('name'), ['c', 'b', 'a'])
+      assert.deepEqual(
+        await Test.filter({ date: Between(new Date(2), null) }).values('date'),
+        [new Date(2), new Date(3)],
+      )
+      assert.deepEqual(await Test.filter({ name: 'a' }).values('content'), ['longer'])
+    })
+  })
+  describe('async iteration', () => {
+    async function populate() {
+      class Test extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @Field()
+        name!: string
+      }
+
+      await init('test', 1)
+
+      for (let id = 1; id <= 7; id++)
+        await Test.create({ id, name: `test${8 - id}` })
+
+      return Test
+    }
+
+    it('should iterate over all the results in batches', async () => {
+      const Test = await populate()
+
+      const ids: number[] = []
+      for await (const test of Test.iterate(3)) {
+        assert.instanceOf(test, Test)
+        ids.push(test.id)
+      }
+      assert.deepEqual(ids, [1, 2, 3, 4, 5, 6, 7])
+
+      const names: string[] = []
+      for await (const test of Test.orderBy('name').filter({ id: Between(2, 6) }))
+        names.push(test.name)
+      assert.deepEqual(names, ['test2', 'test3', 'test4', 'test5', 'test6'])
+    })
+    it('should apply the offset and limit', async () => {
+      const Test = await populate()
+
+      const ids: number[] = []
+      for await (const test of Test.filter({}).offset(2).limit(4).iterate(3))
+        ids.push(test.id)
+      assert.deepEqual(ids, [3, 4, 5, 6])
+
+      const names: string[] = []
+      for await (const test of Test.orderBy('-name').offset(1).limit(3).iterate(2))
+        names.push(test.name)
+      assert.deepEqual(names, ['test6', 'test5', 'test4'])
+    })
+    it('should allow awaiting and writing between the results', async () => {
+      const Test = await populate()
+
+      const ids: number[] = []
+      for await (const test of Test.orderBy('name').iterate(2)) {
+        await new Promise(resolve => setTimeout(resolve, 1))
+        await test.delete()
+        ids.push(test.id)
+        if (ids.length === 5)
+          break
+      }
+      assert.deepEqual(ids, [7, 6, 5, 4, 3])
+      assert.equal(await Test.count(), 2)
+    })
   })
 })
@@ -0,0 +1,422 @@
+import { assert, describe, it } from 'vitest'
+
+import { db, init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Model } from '../src/models'
+import { ForeignKey, ManyToMany, ManyToManyRelation } from '../src/relations'
+import { ModelError } from '../src/errors'
+import type { OnDeleteAction } from '../src/types'
+import { Transaction, _objectStore } from '../src/transaction'
+import { TablesMetadata, getPrimaryKeys } from '../src/metadata'
+
+function defineModels() {
+  class User extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+
+    @Field()
+    name!: string
+
+    posts?: Post[]
+  }
+
+  class Post extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+
+    @ForeignKey(() => User, { related: 'posts' })
+    authorId!: number
+
+    @ForeignKey(() => User, { as: 'reviewer', nullable: true })
+    reviewerId?: number
+
+    author?: User | null
+    reviewer?: User | null
+  }
+
+  return { User, Post }
+}
+
+async function populate() {
+  const { User, Post } = defineModels()
+  await init('test', 1)
+
+  await User.create({ id: 1, name: 'John' })
+  await User.create({ id: 2, name: 'Jane' })
+  await User.create({ id: 3, name: 'Jack' })
+  await Post.create({ id: 1, authorId: 1, reviewerId: 2 })
+  await Post.create({ id: 2, authorId: 1 })
+  await Post.create({ id: 3, authorId: 2 })
+
+  return { User, Post }
+}
+
+describe('Relations', () => {
+  describe('ForeignKey', () => {
+    it('should index the foreign key', async () => {
+      class User extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+      }
+      class Post extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @ForeignKey(() => User, { index: false })
+        authorId!: number
+      }
+
+      await init('test', 1)
+
+      const store = _objectStore('Post')
+      assert.include([...store.indexNames], 'authorId')
+    })
+    it('should need a relation name', () => {
+      class User extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+      }
+
+      assert.throws(() => {
+        class Post extends Model {
+          @ForeignKey(() => User)
+          author!: number
+        }
+
+        return Post
+      }, /use the `as` option/)
+    })
+  })
+  describe('Accessors', () => {
+    it('should get the referenced instance', async () => {
+      const { User, Post } = await populate()
+
+      const post = await Post.get(1)
+      assert.deepEqual(await post?.belongsTo(User, 'authorId'), await User.get(1))
+      assert.deepEqual(await post?.belongsTo(User, 'reviewerId'), await User.get(2))
+
+      const otherPost = await Post.get(2)
+      assert.isNull(await otherPost?.belongsTo(User, 'reviewerId'))
+    })
+    it('should need the foreign key if there are several', async () => {
+      const { User, Post } = await populate()
+
+      const post = await Post.get(1)
+      try {
+        await post?.belongsTo(User)
+        assert.fail('The foreign key should be needed')
+      }
+      catch (e) {
+        assert.match((e as Error).message, /several foreign keys/)
+      }
+    })
+    it('should query the referencing instances', async () => {
+      const { User, Post } = await populate()
+
+      const user = await User.get(1)
+      const posts = await user?.hasMany(Post, 'authorId').all()
+      assert.sameMembers(
+        posts?.map(post => post.id) || [],
+        [1, 2],
+      )
+
+      const reviewed = await (await User.get(2))?.hasMany(Post, 'reviewerId').all()
+      assert.deepEqual(reviewed?.map(post => post.id), [1])
+    })
+  })
+  describe('Include', () => {
+    it('should load the referenced instances', async () => {
+      const { User, Post } = await populate()
+
+      const posts = await Post.include('author', 'reviewer').all()
+      assert.lengthOf(posts, 3)
+      assert.instanceOf(posts[0].author, User)
+      assert.deepEqual(
+        posts.map(post => [post.author?.name, post.reviewer?.name]),
+        [
+          ['John', 'Jane'],
+          ['John', undefined],
+          ['Jane', undefined],
+        ],
+      )
+      assert.isNull(posts[1].reviewer)
+
+      const post = await Post.filter({ id: 3 }).include('author').first()
+      assert.equal(post?.author?.name, 'Jane')
+    })
+    it('should load the referencing instances', async () => {
+      const { User, Post } = await populate()
+
+      const users = await User.include('posts').all()
+      assert.deepEqual(
+        users.map(user => user.posts?.map(post => post.id)),
+        [[1, 2], [3], []],
+      )
+      assert.instanceOf(users[0].posts?.[0], Post)
+    })
+    it('should use the provided transaction', async () => {
+      const { Post } = await populate()
+
+      assert(db.connected)
+      const tx = db.session.transaction(['Post', 'User'], 'readonly')
+      const posts = await Post.include('author').all(tx)
+      assert.equal(posts[0].author?.name, 'John')
+    })
+    it('should not store the loaded relations', async () => {
+      const { Post } = await populate()
+
+      const post = await Post.include('author').first()
+      assert.isDefined(post?.author)
+      await post?.save()
+
+      const stored = await new Promise((resolve, reject) => {
+        const request = _objectStore('Post').get([1])
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      assert.deepEqual(stored, { id: 1, authorId: 1, reviewerId: 2 })
+    })
+    it('should fail on an unknown relation', async () => {
+      const { Post } = await populate()
+
+      try {
+        await Post.include('comments').all()
+        assert.fail('The relation should not exist')
+      }
+      catch (e) {
+        assert.match((e as Error).message, /has no relation comments/)
+      }
+    })
+  })
+  describe('onDelete', () => {
+    function defineActions(onDelete: OnDeleteAction) {
+      class User extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+      }
+
+      class Post extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @ForeignKey(() => User, { onDelete })
+        authorId!: number | null
+      }
+
+      class Comment extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @ForeignKey(() => Post, { onDelete: 'cascade' })
+        postId!: number
+      }
+
+      return { User, Post, Comment }
+    }
+
+    async function populateActions(onDelete: OnDeleteAction) {
+      const models = defineActions(onDelete)
+      await init('test', 1)
+
+      await models.User.create({ id: 1 })
+      await models.User.create({ id: 2 })
+      await models.Post.create({ id: 1, authorId: 1 })
+      await models.Post.create({ id: 2, authorId: 2 })
+      await models.Comment.create({ id: 1, postId: 1 })
+      await models.Comment.create({ id: 2, postId: 2 })
+
+      return models
+    }
+
+    it('should cascade the deletions', async () => {
+      const { User, Post, Comment } = await populateActions('cascade')
+
+      await (await User.get(1))?.delete()
+
+      assert.deepEqual(await Post.keys(), [[2]])
+      assert.deepEqual(await Comment.keys(), [[2]])
+    })
+    it('should cascade the query deletions', async () => {
+      const { User, Post, Comment } = await populateActions('cascade')
+
+      assert.equal(await User.filter({ id: 2 }).delete(), 1)
+
+      assert.deepEqual(await User.keys(), [[1]])
+      assert.deepEqual(await Post.keys(), [[1]])
+      assert.deepEqual(await Comment.keys(), [[1]])
+    })
+    it('should set the foreign keys to null', async () => {
+      const { User, Post } = await populateActions('setNull')
+
+      await (await User.get(1))?.delete()
+
+      assert.isNull((await Post.get(1))?.authorId)
+      assert.equal((await Post.get(2))?.authorId, 2)
+    })
+    it('should need a nullable foreign key to set it to null', () => {
+      class User extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+      }
+
+      assert.throws(() => {
+        class Post extends Model {
+          @ForeignKey(() => User, { onDelete: 'setNull', nullable: false })
+          authorId!: number
+        }
+
+        return Post
+      }, /can't be set to null/)
+    })
+    it('should restrict the deletions', async () => {
+      const { User, Post } = await populateActions('restrict')
+
+      try {
+        await (await User.get(1))?.delete()
+        assert.fail('The deletion should be restricted')
+      }
+      catch (e) {
+        assert.instanceOf(e, ModelError)
+        assert.equal((e as Error).message, 'User 1 is referenced by Post [1]')
+      }
+
+      try {
+        await User.filter({}).delete()
+        assert.fail('The deletion should be restricted')
+      }
+      catch (e) {
+        assert.instanceOf(e, ModelError)
+      }
+
+      assert.equal(await User.count(), 2)
+      assert.equal(await Post.count(), 2)
+    })
+    it('should roll back the cascades of an aborted deletion', async () => {
+      const { User, Post, Comment } = await populateActions('cascade')
+      Comment.prototype.beforeDelete = () => {
+        throw new Error('Abort')
+      }
+
+      try {
+        await (await User.get(1))?.delete()
+        assert.fail('The deletion should be aborted')
+      }
+      catch (e) {
+        assert.equal((e as Error).message, 'Abort')
+      }
+
+      assert.equal(await User.count(), 2)
+      assert.equal(await Post.count(), 2)
+      assert.equal(await Comment.count(), 2)
+    })
+  })
+  describe('ManyToMany', () => {
+    function defineTagged(through?: string) {
+      class Document extends Model {
+        @Field({ primaryKey: true })
+        id!: number
+
+        @ManyToMany(() => Tag, { through })
+        tags!: ManyToManyRelation<Tag>
+      }
+
+      class Tag extends Model {
+        @Field({ primaryKey: true })
+        name!: string
+
+        @ManyToMany(() => Document, { through })
+        documents!: ManyToManyRelation<Document>
+      }
+
+      return { Document, Tag }
+    }
+
+    async function populateTagged(through?: string) {
+      const { Document, Tag } = defineTagged(through)
+      await init('test', 1)
+
+      const doc = await Document.create({ id: 1 })
+      const urgent = await Tag.create({ name: 'urgent' })
+      const draft = await Tag.create({ name: 'draft' })
+
+      return { Document, Tag, doc, urgent, draft }
+    }
+
+    it('should register the join table', async () => {
+      await populateTagged()
+
+      assert.sameMembers(getPrimaryKeys('DocumentTag'), ['documentId', 'tagId'])
+      const store = _objectStore('DocumentTag')
+      assert.sameMembers([...store.indexNames], ['documentId', 'tagId'])
+    })
+    it('should allow naming the join table', async () => {
+      await populateTagged('Tagging')
+
+      assert.sameMembers(getPrimaryKeys('Tagging'), ['documentId', 'tagId'])
+      assert.notProperty(TablesMetadata, 'DocumentTag')
+    })
+    it('should relate the instances from both sides', async () => {
+      const { doc, urgent, draft } = await populateTagged()
+
+      await doc.tags.add([urgent, draft])
+      await doc.tags.add(urgent)
+      assert.sameMembers(
+        (await doc.tags.list()).map(tag => tag.name),
+        ['urgent', 'draft'],
+      )
+      assert.deepEqual(await urgent.documents.list(), [doc])
+
+      await doc.tags.remove(urgent)
+      assert.deepEqual(await doc.tags.list(), [draft])
+      assert.deepEqual(await urgent.documents.list(), [])
+
+      await doc.tags.set([urgent])
+      assert.deepEqual(await doc.tags.list(), [urgent])
+
+      await urgent.documents.remove(doc)
+      assert.deepEqual(await doc.tags.list(), [])
+      assert.deepEqual(await urgent.documents.list(), [])
+    })
+    it('should only relate existing instances', async () => {
+      const { Tag, doc, urgent } = await populateTagged()
+
+      const missing = new Tag()
+      missing.name = 'missing'
+      try {
+        await doc.tags.add([urgent, missing])
+        assert.fail('The tag should not exist')
+      }
+      catch (e) {
+        assert.instanceOf(e, ModelError)
+        assert.equal((e as Error).message, 'Tag "missing" doesn\'t exist')
+      }
+
+      assert.deepEqual(await doc.tags.list(), [])
+    })
+    it('should delete the relations with the instances', async () => {
+      const { Document, doc, urgent, draft } = await populateTagged()
+      const other = await Document.create({ id: 2 })
+
+      await doc.tags.add([urgent, draft])
+      await other.tags.add(urgent)
+      await urgent.delete()
+
+      assert.deepEqual(await doc.tags.list(), [draft])
+      assert.deepEqual(await other.tags.list(), [])
+
+      await doc.delete()
+      assert.deepEqual(await draft.documents.list(), [])
+    })
+    it('should use the provided transaction', async () => {
+      const { doc, urgent } = await populateTagged()
+
+      await Transaction('readwrite', doc.tags.models, async (tx) => {
+        await doc.tags.add(urgent, tx)
+        assert.deepEqual(await doc.tags.list(tx), [urgent])
+        throw new Error('rollback')
+      }).catch(() => {})
+
+      assert.deepEqual(await doc.tags.list(), [])
+    })
+  })
+})
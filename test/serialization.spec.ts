@@ -0,0 +1,159 @@
+import { assert, describe, it } from 'vitest'
+
+import { init } from '../src/connection'
+import { Field } from '../src/fields'
+import { Model } from '../src/models'
+import { _objectStore } from '../src/transaction'
+import { exportTable, importTable } from '../src/exporter'
+import { In, not, or } from '../src/filters'
+import { Between } from '../src/query'
+import type { FieldTransformer } from '../src/types'
+
+class Money {
+  constructor(public cents: number) {}
+
+  add(other: Money): Money {
+    return new Money(this.cents + other.cents)
+  }
+}
+
+const moneyTransformer: FieldTransformer<Money> = {
+  toDB: money => money.cents,
+  fromDB: cents => new Money(cents as number),
+}
+
+class UserId {
+  constructor(public value: string) {}
+}
+
+// Transformed primary keys aren't valid keys themselves
+const johnKey = new UserId('john') as unknown as IDBValidKey
+
+const userIdTransformer: FieldTransformer<UserId> = {
+  toDB: id => id.value,
+  fromDB: value => new UserId(value as string),
+}
+
+const dateTransformer: FieldTransformer<Date> = {
+  toDB: date => date.getTime(),
+  fromDB: time => new Date(time as number),
+}
+
+function defineUser() {
+  class User extends Model {
+    @Field({ primaryKey: true, transformer: userIdTransformer })
+    id!: UserId
+
+    @Field({ transformer: moneyTransformer })
+    balance!: Money
+
+    @Field({ nullable: true, index: false, transformer: moneyTransformer })
+    debt?: Money
+  }
+
+  return User
+}
+
+function getRows(): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    const request = _objectStore('User').getAll()
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+describe('Transformers', () => {
+  it('should store the converted values', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    const user = await User.create({
+      id: new UserId('john'),
+      balance: new Money(100),
+    })
+    assert.instanceOf(user.balance, Money)
+
+    assert.deepEqual(await getRows(), [{ id: 'john', balance: 100 }])
+
+    user.balance = user.balance.add(new Money(50))
+    await user.save()
+    assert.deepEqual(await getRows(), [{ id: 'john', balance: 150 }])
+  })
+  it('should read back instances', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    await User.create({ id: new UserId('john'), balance: new Money(100) })
+
+    const user = await User.get(johnKey)
+    assert.instanceOf(user?.id, UserId)
+    assert.instanceOf(user?.balance, Money)
+    assert.isUndefined(user?.debt)
+
+    const [first] = await User.all()
+    assert.deepEqual(first, user)
+    assert.deepEqual(await User.filter({}).first(), user)
+    await User.forEach((instance) => {
+      assert.instanceOf(instance.balance, Money)
+    })
+
+    const [key] = await User.keys()
+    assert.deepEqual(await User.get(key), user)
+
+    await user?.delete()
+    assert.equal(await User.count(), 0)
+  })
+  it('should convert query updates', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    await User.create({ id: new UserId('john'), balance: new Money(100) })
+    await User.filter({}).update({ debt: new Money(20) })
+
+    assert.deepEqual(await getRows(), [{ id: 'john', balance: 100, debt: 20 }])
+    assert.deepEqual((await User.get(johnKey))?.debt, new Money(20))
+  })
+  it('should round-trip through the exporter', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    await importTable('User', [
+      { id: new UserId('john'), balance: new Money(100) },
+    ])
+    assert.deepEqual(await getRows(), [{ id: 'john', balance: 100 }])
+
+    const exported = await exportTable('User')
+    assert.deepEqual(exported, [
+      { id: new UserId('john'), balance: new Money(100) },
+    ])
+
+    await User.filter({}).delete()
+    await importTable('User', exported)
+    assert.deepEqual(await getRows(), [{ id: 'john', balance: 100 }])
+  })
+  it('should convert the values of the filters', async () => {
+    class Event extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+
+      @Field({ transformer: dateTransformer })
+      start!: Date
+
+      @Field({ index: false, transformer: dateTransformer })
+      end!: Date
+    }
+    await init('test', 1)
+
+    await Event.create({ id: 1, start: new Date(5), end: new Date(6) })
+    await Event.create({ id: 2, start: new Date(7), end: new Date(8) })
+    const ids = async (events: Promise<Event[]>) => (await events).map(event => event.id)
+
+    assert.deepEqual(await ids(Event.filter({ start: new Date(5) }).all()), [1])
+    assert.deepEqual(await ids(Event.filter({ end: new Date(8) }).all()), [2])
+    assert.deepEqual(await ids(Event.filter({ start: In([new Date(5), new Date(7)]) }).all()), [1, 2])
+    assert.deepEqual(await ids(Event.filter({ start: Between(new Date(6), null) }).all()), [2])
+    assert.deepEqual(await ids(Event.filter({ end: not(new Date(6)) }).all()), [2])
+    assert.deepEqual(await ids(Event.filter({ end: end => end.getTime() < 7 }).all()), [1])
+    assert.deepEqual(await ids(Event.filter(or({ start: new Date(5) }, { end: new Date(8) })).all()), [1, 2])
+  })
+})
@@ -0,0 +1,6 @@
+/**
+ * Waits for the pending notifications, messages and query runs.
+ */
+export function settle() {
+  return new Promise(resolve => setTimeout(resolve, 20))
+}
@@ -0,0 +1,224 @@
+import { assert, describe, it } from 'vitest'
+
+import { init } from '../src/connection'
+import { Field, Table } from '../src/fields'
+import { Model } from '../src/models'
+import { importTable } from '../src/exporter'
+import { ModelError, ValidationError } from '../src/errors'
+import { validateFields } from '../src/validation'
+
+enum Role {
+  Admin = 'admin',
+  Guest = 'guest',
+}
+
+function defineUser() {
+  class User extends Model {
+    @Field({ primaryKey: true })
+    id!: number
+
+    @Field({ minLength: 3, maxLength: 8, pattern: /^[a-z]+$/ })
+    name!: string
+
+    @Field({ min: 0, max: 150, nullable: true })
+    age?: number
+
+    @Field({ enum: Object.values(Role), default: Role.Guest })
+    role!: Role
+
+    @Field({
+      validate: (tags: string[]) => tags.length < 3 || 'has too many tags',
+      default: () => [],
+    })
+    tags!: string[]
+  }
+
+  return User
+}
+
+async function expectValidationError(
+  promise: Promise<unknown>,
+): Promise<ValidationError> {
+  return promise
+    .then(() => assert.fail('Should have failed validation'))
+    .catch((err: Error) => {
+      assert.instanceOf(err, ValidationError)
+      assert.instanceOf(err, ModelError)
+      return err
+    })
+}
+
+describe('Validation', () => {
+  it('should list every failed validation', () => {
+    defineUser()
+    const issues = validateFields('User', {
+      id: 1,
+      name: 'A',
+      age: -1,
+      role: 'root',
+      tags: ['a', 'b', 'c'],
+    })
+
+    assert.deepEqual(
+      issues.map(({ field, rule }) => [field, rule]),
+      [
+        ['name', 'minLength'],
+        ['name', 'pattern'],
+        ['age', 'min'],
+        ['role', 'enum'],
+        ['tags', 'validate'],
+      ],
+    )
+    assert.equal(issues[4].message, 'has too many tags')
+  })
+  it('should skip missing values', () => {
+    defineUser()
+    assert.deepEqual(validateFields('User', { id: 1, name: 'john' }), [])
+  })
+  it('should validate on create', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    const err = await expectValidationError(
+      User.create({ id: 1, name: 'john', age: 200 }),
+    )
+    assert.deepEqual(err.errors, [
+      { field: 'age', rule: 'max', message: 'must be at most 150' },
+    ])
+    assert.equal(await User.count(), 0)
+
+    await User.create({ id: 1, name: 'john', age: 20 })
+    assert.equal(await User.count(), 1)
+  })
+  it('should validate on save', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    const user = await User.create({ id: 1, name: 'john' })
+    user.name = 'johnjohnjohn'
+    const err = await expectValidationError(user.save())
+    assert.equal(err.errors[0].rule, 'maxLength')
+
+    assert.equal((await User.get(1))?.name, 'john')
+  })
+  it('should validate on query updates', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    await User.create({ id: 1, name: 'john' })
+    await User.create({ id: 2, name: 'jane' })
+
+    await expectValidationError(
+      User.filter({ name: 'john' }).update({ role: 'root' as Role }),
+    )
+    assert.equal((await User.get(1))?.role, Role.Guest)
+
+    await User.filter({ name: 'john' }).update({ role: Role.Admin })
+    assert.equal((await User.get(1))?.role, Role.Admin)
+  })
+  it('should validate on imports', async () => {
+    const User = defineUser()
+    await init('test', 1)
+
+    await expectValidationError(
+      importTable('User', [
+        { id: 1, name: 'john', role: Role.Guest, tags: [] },
+        { id: 2, name: 'J', role: Role.Guest, tags: [] },
+      ]),
+    )
+    assert.equal(await User.count(), 0)
+  })
+})
+
+describe('Strict types', () => {
+  function defineTest(strict: boolean | 'coerce') {
+    @Table({ strict })
+    class Test extends Model {
+      // Vitest doesn't emit the decorators' metadata
+      @Field({ primaryKey: true, type: Number })
+      id!: number
+
+      @Field({ nullable: true, type: String })
+      name?: string
+
+      @Field({ nullable: true, type: Date })
+      date?: Date
+
+      @Field({ nullable: true, index: false, type: Array })
+      tags?: string[]
+
+      @Field({ nullable: true, index: false, type: Map })
+      map?: Map<string, number>
+    }
+
+    return Test
+  }
+
+  it('should accept values matching their types', async () => {
+    const Test = defineTest(true)
+    await init('test', 1)
+
+    const test = await Test.create({
+      id: 1,
+      name: 'test',
+      date: new Date(),
+      tags: ['a'],
+      map: new Map([['a', 1]]),
+    })
+    test.name = undefined
+    await test.save()
+  })
+  it('should reject values not matching their types', async () => {
+    const Test = defineTest(true)
+    await init('test', 1)
+
+    await Test.create({ id: '1' as unknown as number })
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => {
+        assert.instanceOf(err, ModelError)
+        assert.equal(err.message, 'Field id should be a Number, got string')
+      })
+    await Test.create({ id: NaN })
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.equal(err.message, 'Field id should be a Number, got NaN'))
+
+    const test = await Test.create({ id: 1 })
+    test.map = {} as Map<string, number>
+    await test.save()
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.match(err.message, /should be a Map/))
+
+    await importTable('Test', [{ id: 2, date: 'yesterday' }])
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.match(err.message, /should be a Date/))
+    assert.equal(await Test.count(), 1)
+  })
+  it('should coerce safe values', async () => {
+    const Test = defineTest('coerce')
+    await init('test', 1)
+
+    const test = await Test.create({
+      id: '1' as unknown as number,
+      date: '2023-05-01T10:00:00.000Z' as unknown as Date,
+    })
+    assert.strictEqual(test.id, 1)
+    assert.instanceOf(test.date, Date)
+
+    await Test.filter({ id: 1 }).update({ date: '2023-05-02' as unknown as Date })
+    assert.instanceOf((await Test.get(1))?.date, Date)
+
+    await Test.create({ id: 'one' as unknown as number })
+      .then(() => assert.fail('Should have failed'))
+      .catch((err: Error) => assert.match(err.message, /should be a Number/))
+  })
+  it('should be disabled by default', async () => {
+    class Test extends Model {
+      @Field({ primaryKey: true })
+      id!: number
+    }
+    await init('test', 1)
+
+    await Test.create({ id: '1' as unknown as number })
+    assert.equal(await Test.count(), 1)
+  })
+})